@@ -0,0 +1,139 @@
+/**
+ * Converts between the Anthropic Messages API and Claude CLI
+ *
+ * Requests are mapped onto the OpenAI chat format so they share the
+ * existing openaiToCli conversion; results are mapped back to the
+ * Anthropic message shape.
+ */
+
+import type { ClaudeCliResult } from "../types/claude-cli.js";
+import type {
+  AnthropicContentBlock,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicTextBlock,
+} from "../types/anthropic.js";
+import type {
+  OpenAIChatMessage,
+  OpenAIChatRequest,
+  OpenAIContentPart,
+} from "../types/openai.js";
+import { openaiToCli, type CliInput } from "./openai-to-cli.js";
+import { resolveRemoteImages } from "./remote-images.js";
+import { applyOutputLimits, estimateTokens, type OutputLimits } from "./parameters.js";
+
+/**
+ * Convert Anthropic content blocks to OpenAI content parts
+ */
+function convertBlocks(content: string | AnthropicContentBlock[]): string | OpenAIContentPart[] {
+  if (typeof content === "string") return content;
+
+  const parts: OpenAIContentPart[] = [];
+  for (const block of content) {
+    if (block.type === "text") {
+      parts.push({ type: "text", text: block.text });
+    } else if (block.type === "image") {
+      const url = block.source.type === "base64"
+        ? `data:${block.source.media_type};base64,${block.source.data}`
+        : block.source.url;
+      parts.push({ type: "image_url", image_url: { url } });
+    } else if (block.type === "document") {
+      const data = block.source.type === "text"
+        ? Buffer.from(block.source.data, "utf-8").toString("base64")
+        : block.source.data;
+      parts.push({
+        type: "file",
+        file: { file_data: `data:${block.source.media_type};base64,${data}`, filename: block.title },
+      });
+    } else {
+      throw new Error(`Unsupported content block type: ${(block as { type: string }).type}`);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Flatten the top-level system field into a single string
+ */
+function systemText(system: AnthropicMessagesRequest["system"]): string | undefined {
+  if (!system) return undefined;
+  if (typeof system === "string") return system;
+  return system.map((block) => block.text).join("\n\n");
+}
+
+/**
+ * Map an Anthropic Messages request onto the OpenAI chat request shape
+ */
+export function anthropicToOpenai(request: AnthropicMessagesRequest): OpenAIChatRequest {
+  const messages: OpenAIChatMessage[] = [];
+
+  const system = systemText(request.system);
+  if (system) {
+    messages.push({ role: "system", content: system });
+  }
+
+  for (const msg of request.messages) {
+    messages.push({ role: msg.role, content: convertBlocks(msg.content) });
+  }
+
+  return {
+    model: request.model,
+    messages,
+    stream: request.stream,
+    max_tokens: request.max_tokens,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    user: request.metadata?.user_id,
+  };
+}
+
+/**
+ * Convert Anthropic Messages request to CLI input format.
+ * URL image sources are downloaded first (throws ImageFetchError).
+ */
+export async function anthropicToCli(request: AnthropicMessagesRequest): Promise<CliInput> {
+  return openaiToCli(await resolveRemoteImages(anthropicToOpenai(request)));
+}
+
+/**
+ * Stop sequences and max_tokens of a request, enforced by the proxy
+ */
+export function anthropicOutputLimits(request: AnthropicMessagesRequest): OutputLimits {
+  return {
+    stop: request.stop_sequences || [],
+    maxTokens: typeof request.max_tokens === "number" && request.max_tokens > 0 ? request.max_tokens : undefined,
+  };
+}
+
+/**
+ * Convert Claude CLI result to an Anthropic non-streaming response
+ */
+export function cliResultToAnthropic(
+  result: ClaudeCliResult,
+  requestId: string,
+  request: AnthropicMessagesRequest
+): AnthropicMessagesResponse {
+  // modelUsage is keyed by the full model ID the CLI actually used
+  const modelName = Object.keys(result.modelUsage || {})[0] || request.model;
+  const raw = typeof result.result === "string" ? result.result : "";
+  const { text, finishReason, stopSequence } = applyOutputLimits(raw, anthropicOutputLimits(request));
+
+  const content: AnthropicTextBlock[] = text ? [{ type: "text", text }] : [];
+
+  return {
+    id: `msg_${requestId}`,
+    type: "message",
+    role: "assistant",
+    model: modelName,
+    content,
+    stop_reason: finishReason === "length" ? "max_tokens" : stopSequence ? "stop_sequence" : "end_turn",
+    stop_sequence: stopSequence,
+    usage: {
+      input_tokens: result.usage?.input_tokens || 0,
+      // Truncated output is reported at its estimated size
+      output_tokens: finishReason === "length" ? estimateTokens(text) : result.usage?.output_tokens || 0,
+      cache_creation_input_tokens: result.usage?.cache_creation_input_tokens,
+      cache_read_input_tokens: result.usage?.cache_read_input_tokens,
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { classifyCliResult, parseResetSeconds } from "./cli-errors.js";
+import type { ClaudeCliResult } from "../types/claude-cli.js";
+
+// Local time, since clock resets are read as the proxy host's time
+const NOW = new Date(2026, 0, 1, 14, 0, 0);
+
+function result(text: string, overrides: Partial<ClaudeCliResult> = {}): ClaudeCliResult {
+  return {
+    type: "result",
+    subtype: "success",
+    is_error: false,
+    duration_ms: 10,
+    duration_api_ms: 10,
+    num_turns: 1,
+    result: text,
+    session_id: "session",
+    total_cost_usd: 0,
+    usage: { input_tokens: 1, output_tokens: 1 },
+    modelUsage: { "claude-sonnet": { inputTokens: 1, outputTokens: 1, costUSD: 0 } },
+    ...overrides,
+  };
+}
+
+describe("parseResetSeconds", () => {
+  it("reads an epoch suffix", () => {
+    const epoch = Math.floor(NOW.getTime() / 1000) + 90;
+    assert.equal(parseResetSeconds(`Claude AI usage limit reached|${epoch}`, NOW), 90);
+    assert.equal(parseResetSeconds(`Claude AI usage limit reached|${epoch - 100}`, NOW), undefined);
+  });
+
+  it("reads a clock time later today", () => {
+    assert.equal(parseResetSeconds("5-hour limit reached ∙ resets 3pm", NOW), 3600);
+    assert.equal(parseResetSeconds("Limit reached, resets at 2:30 PM", NOW), 1800);
+    assert.equal(parseResetSeconds("resets at 15:45", NOW), 6300);
+  });
+
+  it("rolls a past clock time over to tomorrow", () => {
+    assert.equal(parseResetSeconds("resets 1pm", NOW), 23 * 3600);
+    assert.equal(parseResetSeconds("resets 12am", NOW), 10 * 3600);
+  });
+
+  it("ignores text without a reset time", () => {
+    assert.equal(parseResetSeconds("usage limit reached", NOW), undefined);
+    assert.equal(parseResetSeconds("resets at 25:00", NOW), undefined);
+  });
+});
+
+describe("classifyCliResult", () => {
+  it("passes normal completions through", () => {
+    assert.equal(classifyCliResult(result("The rate limit on that API is 10/s.")), null);
+  });
+
+  it("maps usage limits to 429 and strips the epoch", () => {
+    const epoch = Math.floor(Date.now() / 1000) + 600;
+    const info = classifyCliResult(result(`Claude AI usage limit reached|${epoch}`, { is_error: true }));
+    assert.equal(info?.status, 429);
+    assert.equal(info?.code, "usage_limit_reached");
+    assert.equal(info?.message, "Claude AI usage limit reached");
+    assert.ok(info?.retryAfter !== undefined && info.retryAfter > 0 && info.retryAfter <= 600);
+  });
+
+  it("recognises limit text without is_error when no model was used", () => {
+    const info = classifyCliResult(result("Claude AI usage limit reached", { modelUsage: {} }));
+    assert.equal(info?.status, 429);
+  });
+
+  it("maps auth, overload and other errors", () => {
+    const auth = classifyCliResult(result("Invalid API key · Please run /login", { is_error: true }));
+    assert.equal(auth?.status, 401);
+    assert.match(auth!.message, /claude auth login/);
+
+    const overloaded = classifyCliResult(result("API Error: 529 Overloaded", { is_error: true }));
+    assert.equal(overloaded?.status, 503);
+
+    const other = classifyCliResult(result("", { is_error: true, subtype: "error" }));
+    assert.deepEqual(other, {
+      status: 500,
+      type: "server_error",
+      code: "cli_error",
+      message: "Claude CLI returned an error (error)",
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Classifies Claude CLI error results into HTTP errors
+ *
+ * When the Max subscription limit is hit, auth has expired or the API is
+ * overloaded, the CLI still emits a "result" message, with the problem
+ * described in the result text. These are mapped to 429/401/503 so
+ * clients see a real error instead of a "successful" completion.
+ */
+
+import type { ClaudeCliResult } from "../types/claude-cli.js";
+
+export interface CliErrorInfo {
+  status: 401 | 429 | 500 | 503;
+  /** OpenAI error type */
+  type: "rate_limit_error" | "authentication_error" | "server_error";
+  code: "usage_limit_reached" | "cli_auth_error" | "overloaded" | "cli_error";
+  message: string;
+  /** Seconds until the limit resets, when the CLI reports it */
+  retryAfter?: number;
+}
+
+const USAGE_LIMIT_PATTERN = /usage limit|limit reached|limit will reset|rate[_ ]limit|reached your .*limit|too many requests|\b429\b/i;
+const AUTH_PATTERN = /invalid api key|please run \/login|not logged in|oauth token (?:has )?expired|authentication_error|unauthorized|\b401\b/i;
+const OVERLOAD_PATTERN = /overloaded|service unavailable|\b5(?:00|02|03|29)\b/i;
+
+/**
+ * Parse a reset time out of a limit message.
+ * Understands "...|<epoch seconds>" and "resets 3pm" / "resets at 3:30 PM".
+ */
+export function parseResetSeconds(text: string, now: Date = new Date()): number | undefined {
+  const epoch = text.match(/\|(\d{10})\b/);
+  if (epoch) {
+    const seconds = parseInt(epoch[1], 10) - Math.floor(now.getTime() / 1000);
+    return seconds > 0 ? seconds : undefined;
+  }
+
+  const clock = text.match(/resets?(?: at)? (\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
+  if (clock) {
+    let hours = parseInt(clock[1], 10);
+    const minutes = clock[2] ? parseInt(clock[2], 10) : 0;
+    const meridiem = clock[3]?.toLowerCase();
+    if (meridiem === "pm" && hours < 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59) return undefined;
+
+    // Next occurrence of that local time
+    const reset = new Date(now);
+    reset.setHours(hours, minutes, 0, 0);
+    if (reset.getTime() <= now.getTime()) {
+      reset.setDate(reset.getDate() + 1);
+    }
+    return Math.ceil((reset.getTime() - now.getTime()) / 1000);
+  }
+
+  return undefined;
+}
+
+/**
+ * Classify a CLI result. Returns null for a normal completion.
+ *
+ * Results flagged is_error (or with an error subtype) are always errors.
+ * Limit messages are also recognised when the flag is missing but no
+ * model was used, which is how a limit hit looks in some CLI versions.
+ */
+export function classifyCliResult(result: ClaudeCliResult): CliErrorInfo | null {
+  const text = typeof result.result === "string" ? result.result.trim() : "";
+  const noModelUsed = !result.modelUsage || Object.keys(result.modelUsage).length === 0;
+  const flagged = result.is_error === true || String(result.subtype).startsWith("error");
+
+  if (!flagged && !(noModelUsed && USAGE_LIMIT_PATTERN.test(text))) {
+    return null;
+  }
+
+  const message = text.replace(/\|\d{10}\b/, "") || `Claude CLI returned an error (${result.subtype})`;
+
+  if (USAGE_LIMIT_PATTERN.test(text)) {
+    return {
+      status: 429,
+      type: "rate_limit_error",
+      code: "usage_limit_reached",
+      message,
+      retryAfter: parseResetSeconds(text),
+    };
+  }
+  if (AUTH_PATTERN.test(text)) {
+    return {
+      status: 401,
+      type: "authentication_error",
+      code: "cli_auth_error",
+      message: `${message} (run 'claude auth login' on the proxy host)`,
+    };
+  }
+  if (OVERLOAD_PATTERN.test(text)) {
+    return { status: 503, type: "server_error", code: "overloaded", message };
+  }
+  return { status: 500, type: "server_error", code: "cli_error", message };
+}
+
+/**
+ * OpenAI-format error body for a classified CLI error
+ */
+export function cliErrorToOpenai(info: CliErrorInfo): {
+  error: { message: string; type: string; code: string };
+} {
+  return { error: { message: info.message, type: info.type, code: info.code } };
+}
+
+/**
+ * Anthropic error type for a classified CLI error
+ */
+export function cliErrorToAnthropicType(info: CliErrorInfo): string {
+  switch (info.status) {
+    case 429:
+      return "rate_limit_error";
+    case 401:
+      return "authentication_error";
+    case 503:
+      return "overloaded_error";
+    default:
+      return "api_error";
+  }
+}
@@ -3,33 +3,26 @@
  */
 
 import type { ClaudeCliAssistant, ClaudeCliResult } from "../types/claude-cli.js";
-import type { OpenAIChatResponse, OpenAIChatChunk } from "../types/openai.js";
+import type {
+  OpenAIChatResponse,
+  OpenAIChatChunk,
+  OpenAIFinishReason,
+  OpenAIToolCall,
+  ToolActivity,
+} from "../types/openai.js";
+import { parseToolCalls } from "./tools.js";
+import { applyOutputLimits, estimateTokens, type OutputLimits } from "./parameters.js";
+import { modelRegistry } from "../models/registry.js";
 
-/**
- * Extract JSON content from model response.
- * Claude often outputs prose before/after JSON in code fences.
- * This extracts the last JSON code fence block, or falls back to
- * finding a raw JSON object/array in the text.
- */
-function stripCodeFences(text: string): string {
-  // Find all code fence blocks and take the last one (most likely the JSON)
-  const fenceMatches = [...text.matchAll(/```(?:\w*)\n([\s\S]*?)\n```/g)];
-  if (fenceMatches.length > 0) {
-    return fenceMatches[fenceMatches.length - 1][1];
-  }
-
-  // Try to extract a raw JSON object or array
-  const jsonMatch = text.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
-  if (jsonMatch) {
-    try {
-      JSON.parse(jsonMatch[1]);
-      return jsonMatch[1];
-    } catch {
-      // Not valid JSON, return original
-    }
-  }
-
-  return text;
+export interface CliResultOptions {
+  /** Parse <tool_call> blocks out of the result into tool_calls */
+  parseToolCalls?: boolean;
+  /** Thinking collected from the assistant messages, sent as reasoning_content */
+  reasoningContent?: string;
+  /** Built-in tools the CLI ran, reported as tool_activity */
+  toolActivity?: ToolActivity[];
+  /** Stop sequences and max_tokens to cut the result at */
+  limits?: OutputLimits;
 }
 
 /**
@@ -37,8 +30,16 @@ function stripCodeFences(text: string): string {
  */
 export function extractTextContent(message: ClaudeCliAssistant): string {
   return message.message.content
-    .filter((c) => c.type === "text")
-    .map((c) => c.text)
+    .map((c) => (c.type === "text" ? c.text : ""))
+    .join("");
+}
+
+/**
+ * Extract thinking content from Claude CLI assistant message
+ */
+export function extractThinkingContent(message: ClaudeCliAssistant): string {
+  return message.message.content
+    .map((c) => (c.type === "thinking" ? c.thinking : ""))
     .join("");
 }
 
@@ -56,7 +57,7 @@ export function cliToOpenaiChunk(
     id: `chatcmpl-${requestId}`,
     object: "chat.completion.chunk",
     created: Math.floor(Date.now() / 1000),
-    model: normalizeModelName(message.message.model),
+    model: modelRegistry.displayId(message.message.model),
     choices: [
       {
         index: 0,
@@ -73,17 +74,61 @@ export function cliToOpenaiChunk(
 /**
  * Create a final "done" chunk for streaming
  */
-export function createDoneChunk(requestId: string, model: string): OpenAIChatChunk {
+export function createDoneChunk(
+  requestId: string,
+  model: string,
+  finishReason: OpenAIFinishReason = "stop",
+  choiceIndex: number = 0
+): OpenAIChatChunk {
   return {
     id: `chatcmpl-${requestId}`,
     object: "chat.completion.chunk",
     created: Math.floor(Date.now() / 1000),
-    model: normalizeModelName(model),
+    model: modelRegistry.displayId(model),
     choices: [
       {
-        index: 0,
+        index: choiceIndex,
         delta: {},
-        finish_reason: "stop",
+        finish_reason: finishReason,
+      },
+    ],
+  };
+}
+
+/**
+ * Create a streaming chunk carrying complete tool calls.
+ * Each call is sent whole (id, name and full arguments) in one delta.
+ * Indexes start at indexOffset when executed built-in tools took the first ones.
+ */
+export function createToolCallsChunk(
+  requestId: string,
+  model: string,
+  toolCalls: OpenAIToolCall[],
+  isFirst: boolean = false,
+  indexOffset: number = 0,
+  choiceIndex: number = 0
+): OpenAIChatChunk {
+  return {
+    id: `chatcmpl-${requestId}`,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model: modelRegistry.displayId(model),
+    choices: [
+      {
+        index: choiceIndex,
+        delta: {
+          role: isFirst ? "assistant" : undefined,
+          tool_calls: toolCalls.map((call, index) => ({
+            index: indexOffset + index,
+            id: call.id,
+            type: "function",
+            function: {
+              name: call.function.name,
+              arguments: call.function.arguments,
+            },
+          })),
+        },
+        finish_reason: null,
       },
     ],
   };
@@ -121,7 +166,8 @@ function ensureString(value: unknown): string {
  */
 export function cliResultToOpenai(
   result: ClaudeCliResult,
-  requestId: string
+  requestId: string,
+  options: CliResultOptions = {}
 ): OpenAIChatResponse {
   // Get model from modelUsage or default
   const modelName = result.modelUsage
@@ -129,42 +175,51 @@ export function cliResultToOpenai(
     : "claude-sonnet-4";
 
   // Ensure content is always a string to prevent [object Object] issues
-  const content = ensureString(result.result);
+  let content: string | null = ensureString(result.result);
+  let toolCalls: OpenAIToolCall[] = [];
+  let finishReason: OpenAIFinishReason = "stop";
+  let outputTokens = result.usage?.output_tokens || 0;
+
+  if (options.limits) {
+    const limited = applyOutputLimits(content, options.limits);
+    content = limited.text;
+    if (limited.finishReason === "length") {
+      finishReason = "length";
+      // Output cut at max_tokens is reported at its estimated size
+      outputTokens = estimateTokens(limited.text);
+    }
+  }
+
+  if (options.parseToolCalls) {
+    const parsed = parseToolCalls(content);
+    toolCalls = parsed.toolCalls;
+    if (toolCalls.length > 0) {
+      content = parsed.content || null;
+    }
+  }
 
   return {
     id: `chatcmpl-${requestId}`,
     object: "chat.completion",
     created: Math.floor(Date.now() / 1000),
-    model: normalizeModelName(modelName),
+    model: modelRegistry.displayId(modelName),
     choices: [
       {
         index: 0,
         message: {
           role: "assistant",
           content,
+          ...(options.reasoningContent ? { reasoning_content: options.reasoningContent } : {}),
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          ...(options.toolActivity?.length ? { tool_activity: options.toolActivity } : {}),
         },
-        finish_reason: "stop",
+        finish_reason: toolCalls.length > 0 ? "tool_calls" : finishReason,
       },
     ],
     usage: {
       prompt_tokens: result.usage?.input_tokens || 0,
-      completion_tokens: result.usage?.output_tokens || 0,
-      total_tokens:
-        (result.usage?.input_tokens || 0) + (result.usage?.output_tokens || 0),
+      completion_tokens: outputTokens,
+      total_tokens: (result.usage?.input_tokens || 0) + outputTokens,
     },
   };
 }
-
-/**
- * Normalize Claude model names to a consistent format
- * e.g., "claude-sonnet-4-5-20250929" -> "claude-sonnet-4"
- * 
- * Handles undefined model (e.g., when rate limit is hit and modelUsage is empty)
- */
-function normalizeModelName(model: string | undefined): string {
-  if (!model) return "claude-sonnet-4";
-  if (model.includes("opus")) return "claude-opus-4";
-  if (model.includes("sonnet")) return "claude-sonnet-4";
-  if (model.includes("haiku")) return "claude-haiku-4";
-  return model;
-}
@@ -0,0 +1,101 @@
+/**
+ * Converts between the legacy text completions API and the chat request format
+ *
+ * The prompt becomes a single user turn, with a system prompt asking the
+ * model to continue it verbatim. With a suffix the model is asked for the
+ * text between prompt and suffix instead (fill-in-the-middle).
+ */
+
+import type { ClaudeCliResult } from "../types/claude-cli.js";
+import type { OpenAIChatRequest } from "../types/openai.js";
+import type { CompletionsChoice, CompletionsRequest, CompletionsResponse } from "../types/completions.js";
+
+const CONTINUE_PROMPT = [
+  "You are a text completion engine, not a chat assistant.",
+  "The user message is the beginning of a document. Continue it exactly where it ends.",
+  "Output only the continuation: do not repeat the given text, do not add commentary or",
+  "explanations, and do not wrap the output in markdown code fences.",
+].join("\n");
+
+const INFILL_PROMPT = [
+  "You are a fill-in-the-middle engine, not a chat assistant.",
+  "The user message holds the text before (<prefix>) and after (<suffix>) a gap.",
+  "Output only the text that fills the gap, so that prefix + output + suffix reads as one",
+  "document. Do not repeat the prefix or suffix, do not add commentary or explanations,",
+  "and do not wrap the output in markdown code fences.",
+].join("\n");
+
+/**
+ * Get the single prompt string of a request.
+ * Throws for batched or token-array prompts, which are not supported.
+ */
+export function getPromptText(prompt: CompletionsRequest["prompt"]): string {
+  if (typeof prompt === "string") return prompt;
+  if (Array.isArray(prompt) && prompt.length === 1 && typeof prompt[0] === "string") {
+    return prompt[0];
+  }
+  throw new Error("prompt must be a string or an array with one string (batches and token arrays are not supported)");
+}
+
+/**
+ * Map a completions request onto the chat request shape
+ */
+export function completionsToOpenai(request: CompletionsRequest): OpenAIChatRequest {
+  const prompt = getPromptText(request.prompt);
+  const infill = typeof request.suffix === "string" && request.suffix.length > 0;
+
+  return {
+    model: request.model,
+    messages: [
+      { role: "system", content: infill ? INFILL_PROMPT : CONTINUE_PROMPT },
+      {
+        role: "user",
+        content: infill ? `<prefix>${prompt}</prefix>\n<suffix>${request.suffix}</suffix>` : prompt,
+      },
+    ],
+    stream: request.stream,
+    max_tokens: request.max_tokens,
+    stop: request.stop,
+    n: request.n,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    frequency_penalty: request.frequency_penalty,
+    presence_penalty: request.presence_penalty,
+    seed: request.seed,
+    logit_bias: request.logit_bias,
+    // Any logprobs value asks for token probabilities, which the CLI can't give
+    logprobs: request.logprobs !== undefined && request.logprobs !== null ? true : undefined,
+    user: request.user,
+  };
+}
+
+/**
+ * Build a text_completion object (a whole response, or one stream chunk).
+ * outputTokens overrides the CLI's count (output cut at max_tokens).
+ */
+export function createCompletionObject(
+  requestId: string,
+  model: string,
+  choice: Omit<CompletionsChoice, "index" | "logprobs">,
+  result?: ClaudeCliResult,
+  outputTokens: number = result?.usage?.output_tokens || 0
+): CompletionsResponse {
+  const usage = result?.usage;
+
+  return {
+    id: `cmpl-${requestId}`,
+    object: "text_completion",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ text: choice.text, index: 0, logprobs: null, finish_reason: choice.finish_reason }],
+    ...(result
+      ? {
+          usage: {
+            prompt_tokens: usage?.input_tokens || 0,
+            completion_tokens: outputTokens,
+            total_tokens: (usage?.input_tokens || 0) + outputTokens,
+          },
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * File inputs (file / input_file content parts)
+ *
+ * Parts carry file_data inline or reference an uploaded file by file_id
+ * (see files/store.ts). Routes inline file_id references with
+ * resolveFileInputs first, checking the file belongs to the request's key
+ * and reading each file once, so conversion never touches the store. PDFs become document blocks and images image
+ * blocks, both of which need stream-json input mode. Text files (by media
+ * type or extension) are decoded and inlined as tagged text with their
+ * filename. Anything else is rejected with FileInputError.
+ *
+ * Configuration (environment):
+ * - FILE_INPUT_MAX_BYTES: largest decoded file accepted (default 10 MB)
+ */
+
+import type {
+  OpenAIChatRequest,
+  OpenAIContentPart,
+  OpenAIFileContentPart,
+  OpenAIInputFileContentPart,
+} from "../types/openai.js";
+import type { CliImageContent, CliTextContent } from "./openai-to-cli.js";
+import { fileStore } from "../files/store.js";
+
+/**
+ * Raised for file parts that can't be used; routes answer 400
+ */
+export class FileInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileInputError";
+  }
+}
+
+export interface CliDocumentContent {
+  type: "document";
+  source: {
+    type: "base64";
+    media_type: "application/pdf";
+    data: string;
+  };
+  title?: string;
+}
+
+export type FileBlock = CliTextContent | CliImageContent | CliDocumentContent;
+
+export const MAX_FILE_BYTES = (() => {
+  const value = parseInt(process.env.FILE_INPUT_MAX_BYTES || "", 10);
+  return isNaN(value) || value <= 0 ? 10 * 1024 * 1024 : value;
+})();
+
+const TEXT_MEDIA_TYPES = new Set([
+  "application/json",
+  "application/x-ndjson",
+  "application/xml",
+  "application/javascript",
+  "application/typescript",
+  "application/x-yaml",
+  "application/yaml",
+  "application/toml",
+  "application/x-sh",
+  "application/sql",
+]);
+
+const TEXT_EXTENSIONS = new Set([
+  "txt", "md", "markdown", "rst", "csv", "tsv", "json", "jsonl", "xml", "yaml", "yml",
+  "toml", "ini", "cfg", "conf", "env", "log", "html", "htm", "css", "scss", "js", "mjs",
+  "cjs", "jsx", "ts", "tsx", "py", "rb", "go", "rs", "java", "kt", "kts", "swift", "c",
+  "h", "cc", "cpp", "hpp", "cs", "php", "sh", "bash", "zsh", "sql", "r", "scala", "lua",
+  "pl", "dart", "vue", "svelte", "graphql", "proto", "tex", "diff", "patch",
+]);
+
+// "%PDF-" base64-encoded, for spotting PDFs without decoding
+const PDF_BASE64_PREFIX = "JVBERi0";
+
+// Image types the Claude API accepts
+const IMAGE_MEDIA_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+interface FileSource {
+  data?: string;
+  fileId?: string;
+  filename?: string;
+}
+
+/**
+ * Detect PDFs and supported images from their leading bytes
+ */
+export function sniffMediaType(bytes: Buffer): string | null {
+  if (bytes.subarray(0, 5).toString("latin1") === "%PDF-") return "application/pdf";
+  if (bytes.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) return "image/png";
+  if (bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) return "image/jpeg";
+  if (bytes.subarray(0, 4).toString("latin1") === "GIF8") return "image/gif";
+  if (bytes.subarray(0, 4).toString("latin1") === "RIFF" && bytes.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+/**
+ * Whether a content part is a file part, in either accepted shape
+ */
+export function isFilePart(
+  part: OpenAIContentPart
+): part is OpenAIFileContentPart | OpenAIInputFileContentPart {
+  return part.type === "file" || part.type === "input_file";
+}
+
+function fileSource(part: OpenAIFileContentPart | OpenAIInputFileContentPart): FileSource {
+  if (part.type === "file") {
+    return { data: part.file?.file_data, fileId: part.file?.file_id, filename: part.file?.filename };
+  }
+  return { data: part.file_data, fileId: part.file_id, filename: part.filename };
+}
+
+function extensionOf(filename: string | undefined): string {
+  const match = filename?.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return match ? match[1] : "";
+}
+
+/**
+ * Split file_data into media type and base64 payload.
+ * Accepts a data URI or bare base64.
+ */
+function splitFileData(data: string): { mediaType?: string; base64: string } {
+  const match = data.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s);
+  if (match) {
+    return { mediaType: match[1]?.toLowerCase(), base64: match[2] };
+  }
+  return { base64: data };
+}
+
+/**
+ * Whether a file part holds a PDF or image (needs stream-json input mode)
+ */
+export function isAttachmentFilePart(part: OpenAIContentPart): boolean {
+  if (!isFilePart(part)) return false;
+  const { data, filename } = fileSource(part);
+  if (extensionOf(filename) === "pdf") return true;
+  if (!data) return false;
+  const { mediaType, base64 } = splitFileData(data);
+  return mediaType === "application/pdf" || IMAGE_MEDIA_TYPES.has(mediaType || "") ||
+    base64.startsWith(PDF_BASE64_PREFIX);
+}
+
+/**
+ * Load a file part's inline content (file_id references are inlined by
+ * resolveFileInputs beforehand)
+ */
+function loadFileContent(source: FileSource): { mediaType?: string; base64: string; filename?: string } {
+  if (source.data) {
+    return { ...splitFileData(source.data), filename: source.filename };
+  }
+  if (source.fileId) {
+    throw new FileInputError(`No such file: '${source.fileId}'`);
+  }
+  throw new FileInputError(`File part '${source.filename || "file"}' has neither file_data nor file_id`);
+}
+
+/**
+ * Inline a file_id reference as file_data, reading the stored file once
+ */
+function inlineStoredFile(
+  part: OpenAIFileContentPart | OpenAIInputFileContentPart,
+  owner: string | null
+): OpenAIFileContentPart | OpenAIInputFileContentPart {
+  const { data, fileId, filename } = fileSource(part);
+  if (data || !fileId) return part;
+
+  const stored = fileStore.get(fileId, owner);
+  const content = stored ? fileStore.readContent(fileId, owner) : undefined;
+  if (!stored || !content) {
+    throw new FileInputError(`No such file: '${fileId}'`);
+  }
+  const fileData = `data:${stored.mediaType};base64,${content.toString("base64")}`;
+  const name = filename || stored.filename;
+  return part.type === "file"
+    ? { type: "file", file: { file_data: fileData, filename: name } }
+    : { type: "input_file", file_data: fileData, filename: name };
+}
+
+/**
+ * Replace file_id references with the stored files' data. Only files the
+ * owner uploaded are found (null: any file). Throws FileInputError.
+ */
+export function resolveFileInputs<T extends Pick<OpenAIChatRequest, "messages">>(
+  request: T,
+  owner: string | null
+): T {
+  return {
+    ...request,
+    messages: request.messages.map((msg) => {
+      if (!Array.isArray(msg.content) || !msg.content.some(isFilePart)) return msg;
+      return {
+        ...msg,
+        content: msg.content.map((part) => (isFilePart(part) ? inlineStoredFile(part, owner) : part)),
+      };
+    }),
+  };
+}
+
+function isTextType(mediaType: string | undefined, extension: string): boolean {
+  if (mediaType && (mediaType.startsWith("text/") || TEXT_MEDIA_TYPES.has(mediaType))) {
+    return true;
+  }
+  // Generic or missing types fall back to the extension
+  return (!mediaType || mediaType === "application/octet-stream") && TEXT_EXTENSIONS.has(extension);
+}
+
+/**
+ * Convert a file part to a CLI content block.
+ * Throws FileInputError for missing data, oversize or unsupported files.
+ */
+export function convertFilePart(part: OpenAIFileContentPart | OpenAIInputFileContentPart): FileBlock {
+  const source = fileSource(part);
+  const { mediaType, base64, filename } = loadFileContent(source);
+  const name = filename || source.fileId || "file";
+
+  // Decoded size, without decoding
+  const size = Math.floor((base64.length * 3) / 4);
+  if (size > MAX_FILE_BYTES) {
+    throw new FileInputError(`File '${name}' is too large (${size} bytes, limit ${MAX_FILE_BYTES})`);
+  }
+
+  const extension = extensionOf(filename);
+  if (mediaType === "application/pdf" || extension === "pdf" || (!mediaType && base64.startsWith(PDF_BASE64_PREFIX))) {
+    if (!base64.startsWith(PDF_BASE64_PREFIX)) {
+      throw new FileInputError(`File '${name}' is not a valid PDF`);
+    }
+    return {
+      type: "document",
+      source: { type: "base64", media_type: "application/pdf", data: base64 },
+      ...(filename ? { title: filename } : {}),
+    };
+  }
+
+  if (mediaType && IMAGE_MEDIA_TYPES.has(mediaType)) {
+    return { type: "image", source: { type: "base64", media_type: mediaType, data: base64 } };
+  }
+
+  if (isTextType(mediaType, extension)) {
+    let text: string;
+    try {
+      text = new TextDecoder("utf-8", { fatal: true }).decode(Buffer.from(base64, "base64"));
+    } catch {
+      throw new FileInputError(`File '${name}' is not valid UTF-8 text`);
+    }
+    if (text.includes("\u0000")) {
+      throw new FileInputError(`File '${name}' looks binary, not text`);
+    }
+    return { type: "text", text: `<file name="${name}">\n${text}\n</file>` };
+  }
+
+  throw new FileInputError(
+    `Unsupported file type '${mediaType || (extension ? `.${extension}` : "unknown")}' for '${name}'; ` +
+    "only PDF, image and plain-text files are supported"
+  );
+}
+
+/**
+ * Convert every file part in the messages, so invalid files are reported
+ * before a request slot or session is claimed. Throws FileInputError.
+ */
+export function validateFileInputs(messages: { content: string | OpenAIContentPart[] | null }[]): void {
+  for (const msg of messages) {
+    if (!Array.isArray(msg.content)) continue;
+    for (const part of msg.content) {
+      if (isFilePart(part)) convertFilePart(part);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { checkJsonSchema, validateJsonSchema, type JsonSchema } from "./json-schema.js";
+
+const person: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    age: { type: "integer", minimum: 0 },
+    tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+  },
+  required: ["name", "age"],
+  additionalProperties: false,
+};
+
+describe("validateJsonSchema", () => {
+  it("accepts a matching value", () => {
+    assert.deepEqual(validateJsonSchema({ name: "Ada", age: 36, tags: ["math"] }, person), []);
+  });
+
+  it("reports errors with paths rooted at $", () => {
+    assert.deepEqual(validateJsonSchema({ name: "", age: 1.5, tags: ["a", 2, "c"], extra: true }, person), [
+      "$.name: must be at least 1 characters",
+      "$.age: expected integer, got number",
+      "$.tags: must have at most 2 items",
+      "$.tags[1]: expected string, got integer",
+      '$: unexpected property "extra"',
+    ]);
+  });
+
+  it("requires own properties only", () => {
+    const value = Object.create({ name: "Ada", age: 36 });
+    assert.deepEqual(validateJsonSchema(value, person), [
+      '$: missing required property "name"',
+      '$: missing required property "age"',
+    ]);
+    // Inherited names like "constructor" are not schema properties
+    assert.deepEqual(validateJsonSchema({ name: "Ada", age: 1, constructor: 1 }, person), [
+      '$: unexpected property "constructor"',
+    ]);
+  });
+
+  it("checks enum, const and combinators", () => {
+    assert.deepEqual(validateJsonSchema("c", { enum: ["a", "b"] }), ['$: must be one of ["a","b"]']);
+    assert.deepEqual(validateJsonSchema(2, { const: 1 }), ["$: must equal 1"]);
+    assert.deepEqual(validateJsonSchema(true, { anyOf: [{ type: "string" }, { type: "number" }] }), [
+      "$: does not match any allowed schema",
+    ]);
+    assert.deepEqual(validateJsonSchema(3, { oneOf: [{ type: "number" }, { type: "integer" }] }), [
+      "$: must match exactly one schema (matched 2)",
+    ]);
+  });
+
+  it("resolves local $refs", () => {
+    const schema: JsonSchema = {
+      $defs: { id: { type: "string", pattern: "^[a-z]+$" } },
+      type: "array",
+      items: { $ref: "#/$defs/id" },
+    };
+    assert.deepEqual(validateJsonSchema(["ok", "NO"], schema), ["$[1]: must match pattern ^[a-z]+$"]);
+    assert.deepEqual(validateJsonSchema("x", { $ref: "#/$defs/missing" }), [
+      "$: unresolvable $ref #/$defs/missing",
+    ]);
+    assert.deepEqual(validateJsonSchema("x", { $ref: "#/$defs/toString", $defs: {} }), [
+      "$: unresolvable $ref #/$defs/toString",
+    ]);
+  });
+
+  it("follows recursive $refs through nested values", () => {
+    const tree: JsonSchema = {
+      $defs: {
+        node: {
+          type: "object",
+          properties: { children: { type: "array", items: { $ref: "#/$defs/node" } } },
+          required: ["children"],
+        },
+      },
+      $ref: "#/$defs/node",
+    };
+    assert.deepEqual(validateJsonSchema({ children: [{ children: [] }] }, tree), []);
+    assert.deepEqual(validateJsonSchema({ children: [{}] }, tree), [
+      '$.children[0]: missing required property "children"',
+    ]);
+  });
+
+  it("stops on cyclic $refs that never reach a value", () => {
+    const schema: JsonSchema = {
+      $defs: { a: { $ref: "#/$defs/b" }, b: { $ref: "#/$defs/a" } },
+      $ref: "#/$defs/a",
+    };
+    const errors = validateJsonSchema({}, schema);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /nests too deeply \(limit 32\)$/);
+
+    const viaAllOf: JsonSchema = { $defs: { loop: { allOf: [{ $ref: "#/$defs/loop" }] } }, $ref: "#/$defs/loop" };
+    assert.match(validateJsonSchema(1, viaAllOf)[0], /nests too deeply/);
+  });
+
+  it("only checks patterns against strings of up to 1000 characters", () => {
+    const schema: JsonSchema = { pattern: "^(a+)+$" };
+    assert.deepEqual(validateJsonSchema("a".repeat(1000), schema), []);
+    assert.deepEqual(validateJsonSchema("b".repeat(10), schema), ["$: must match pattern ^(a+)+$"]);
+    // Too long to check: skipped rather than backtracking on the event loop
+    assert.deepEqual(validateJsonSchema("a".repeat(5000) + "b", schema), []);
+  });
+
+  it("skips malformed keywords instead of throwing", () => {
+    const malformed = { enum: 5, allOf: {}, anyOf: "x", required: true, items: 5, properties: 1 } as unknown as JsonSchema;
+    assert.deepEqual(validateJsonSchema([1], malformed), []);
+    assert.deepEqual(validateJsonSchema({ a: 1 }, malformed), []);
+    assert.deepEqual(validateJsonSchema(1, { allOf: [5, true] } as unknown as JsonSchema), []);
+  });
+});
+
+describe("checkJsonSchema", () => {
+  it("accepts usable schemas", () => {
+    assert.equal(checkJsonSchema(person, "schema"), null);
+    assert.equal(checkJsonSchema({ type: ["string", "null"], additionalProperties: { type: "number" } }, "schema"), null);
+  });
+
+  it("names the first malformed keyword", () => {
+    assert.equal(checkJsonSchema(5, "schema"), "schema: must be an object");
+    assert.equal(checkJsonSchema({ enum: 5 }, "schema"), "schema.enum: must be an array");
+    assert.equal(checkJsonSchema({ allOf: {} }, "schema"), "schema.allOf: must be an array");
+    assert.equal(checkJsonSchema({ anyOf: ["x"] }, "schema"), "schema.anyOf[0]: must be an object");
+    assert.equal(checkJsonSchema({ items: 5 }, "schema"), "schema.items: must be an object");
+    assert.equal(checkJsonSchema({ required: "name" }, "schema"), "schema.required: must be an array of strings");
+    assert.equal(
+      checkJsonSchema({ properties: { age: { minimum: "0" } } }, "schema"),
+      "schema.properties.age.minimum: must be a number"
+    );
+    assert.equal(checkJsonSchema({ $defs: { a: { $ref: 1 } } }, "schema"), "schema.$defs.a.$ref: must be a string");
+  });
+
+  it("rejects patterns that don't compile or are too long", () => {
+    assert.equal(checkJsonSchema({ pattern: "^[a-z" }, "schema"), "schema.pattern: is not a valid regular expression");
+    assert.equal(checkJsonSchema({ pattern: "a".repeat(201) }, "schema"), "schema.pattern: must be at most 200 characters");
+    assert.equal(checkJsonSchema({ pattern: "a".repeat(200) }, "schema"), null);
+  });
+});
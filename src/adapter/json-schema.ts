@@ -0,0 +1,273 @@
+/**
+ * Minimal JSON Schema validator for structured output
+ *
+ * Covers the subset of JSON Schema used by OpenAI json_schema response
+ * formats: type, properties, required, additionalProperties, items, enum,
+ * const, anyOf/oneOf/allOf, numeric and length bounds, pattern and local
+ * $ref (#/$defs/..., #/definitions/...). Unknown keywords are ignored.
+ *
+ * Client patterns run on the event loop, so they are capped at
+ * MAX_PATTERN_LENGTH characters, compiled once per schema, and only
+ * checked against strings of up to MAX_PATTERN_INPUT characters; this
+ * bounds what a backtracking pattern can cost.
+ */
+
+export type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  [key: string]: unknown;
+};
+
+// Stop collecting after this many errors; enough to guide a retry
+const MAX_ERRORS = 20;
+
+// $ref hops allowed without descending into the value (stops cyclic refs)
+const MAX_REF_DEPTH = 32;
+
+const MAX_PATTERN_LENGTH = 200;
+const MAX_PATTERN_INPUT = 1000;
+
+// Compiled pattern per schema node; null when it doesn't compile
+const compiledPatterns: WeakMap<object, RegExp | null> = new WeakMap();
+
+const NUMBER_KEYWORDS = [
+  "minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum",
+  "minLength", "maxLength", "minItems", "maxItems",
+];
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringOrStrings(value: unknown): boolean {
+  return typeof value === "string" || (Array.isArray(value) && value.every((item) => typeof item === "string"));
+}
+
+/**
+ * The schema's pattern as a RegExp, or null if it is too long or invalid
+ */
+function compilePattern(schema: JsonSchema & { pattern: string }): RegExp | null {
+  let regex = compiledPatterns.get(schema);
+  if (regex === undefined) {
+    try {
+      regex = schema.pattern.length <= MAX_PATTERN_LENGTH ? new RegExp(schema.pattern, "u") : null;
+    } catch {
+      regex = null;
+    }
+    compiledPatterns.set(schema, regex);
+  }
+  return regex;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  const match = ref.match(/^#\/(\$defs|definitions)\/(.+)$/);
+  if (!match) return ref === "#" ? root : undefined;
+  const defs = root[match[1]] as Record<string, JsonSchema> | undefined;
+  const name = decodeURIComponent(match[2]);
+  return defs && hasOwn(defs, name) ? defs[name] : undefined;
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: string[],
+  refDepth: number = 0
+): void {
+  // Malformed schemas and keywords are skipped rather than thrown on
+  if (errors.length >= MAX_ERRORS || !isObject(schema)) return;
+
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(schema.$ref, root);
+    if (!target) {
+      errors.push(`${path}: unresolvable $ref ${schema.$ref}`);
+      return;
+    }
+    if (refDepth >= MAX_REF_DEPTH) {
+      errors.push(`${path}: $ref ${schema.$ref} nests too deeply (limit ${MAX_REF_DEPTH})`);
+      return;
+    }
+    validateNode(value, target, path, root, errors, refDepth + 1);
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ("const" in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) validateNode(value, sub, path, root, errors, refDepth);
+  }
+  const options = schema.anyOf || schema.oneOf;
+  if (Array.isArray(options)) {
+    const matching = options.filter((sub) => {
+      const subErrors: string[] = [];
+      validateNode(value, sub, path, root, subErrors, refDepth);
+      return subErrors.length === 0;
+    }).length;
+    if (schema.anyOf && matching === 0) {
+      errors.push(`${path}: does not match any allowed schema`);
+    }
+    if (schema.oneOf && matching !== 1) {
+      errors.push(`${path}: must match exactly one schema (matched ${matching})`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    // Unusable patterns are rejected up front by checkJsonSchema
+    if (typeof schema.pattern === "string" && value.length <= MAX_PATTERN_INPUT) {
+      const regex = compilePattern(schema as JsonSchema & { pattern: string });
+      if (regex && !regex.test(value)) errors.push(`${path}: must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => validateNode(item, schema.items!, `${path}[${i}]`, root, errors));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!hasOwn(obj, key)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propertySchema = isObject(schema.properties) && hasOwn(schema.properties, key) ? schema.properties[key] : undefined;
+      if (propertySchema) {
+        validateNode(child, propertySchema, `${path}.${key}`, root, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === "object") {
+        validateNode(child, schema.additionalProperties, `${path}.${key}`, root, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Find the first keyword of a schema the validator can't use, such as an
+ * enum that is not an array. Returns null for a usable schema; unknown
+ * keywords are not checked.
+ */
+export function checkJsonSchema(schema: unknown, path: string): string | null {
+  if (!isObject(schema)) return `${path}: must be an object`;
+
+  if (schema.type !== undefined && !isStringOrStrings(schema.type)) {
+    return `${path}.type: must be a string or an array of strings`;
+  }
+  if (schema.required !== undefined && !(Array.isArray(schema.required) && isStringOrStrings(schema.required))) {
+    return `${path}.required: must be an array of strings`;
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) return `${path}.enum: must be an array`;
+  if (schema.$ref !== undefined && typeof schema.$ref !== "string") return `${path}.$ref: must be a string`;
+  if (schema.pattern !== undefined) {
+    if (typeof schema.pattern !== "string") return `${path}.pattern: must be a string`;
+    if (schema.pattern.length > MAX_PATTERN_LENGTH) {
+      return `${path}.pattern: must be at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+    if (!compilePattern(schema as JsonSchema & { pattern: string })) {
+      return `${path}.pattern: is not a valid regular expression`;
+    }
+  }
+  for (const key of NUMBER_KEYWORDS) {
+    if (schema[key] !== undefined && typeof schema[key] !== "number") return `${path}.${key}: must be a number`;
+  }
+
+  for (const key of ["properties", "$defs", "definitions"]) {
+    const map = schema[key];
+    if (map === undefined) continue;
+    if (!isObject(map)) return `${path}.${key}: must be an object`;
+    for (const [name, sub] of Object.entries(map)) {
+      const error = checkJsonSchema(sub, `${path}.${key}.${name}`);
+      if (error) return error;
+    }
+  }
+  for (const key of ["allOf", "anyOf", "oneOf"]) {
+    const list = schema[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) return `${path}.${key}: must be an array`;
+    for (let i = 0; i < list.length; i++) {
+      const error = checkJsonSchema(list[i], `${path}.${key}[${i}]`);
+      if (error) return error;
+    }
+  }
+  if (schema.items !== undefined) {
+    const error = checkJsonSchema(schema.items, `${path}.items`);
+    if (error) return error;
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== "boolean") {
+    return checkJsonSchema(schema.additionalProperties, `${path}.additionalProperties`);
+  }
+  return null;
+}
+
+/**
+ * Validate a value against a schema. Returns a list of error messages
+ * (empty when valid), with paths rooted at "$".
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, "$", schema, errors);
+  return errors;
+}
@@ -3,27 +3,31 @@
  *
  * Supports two modes:
  * - Text-only: prompt passed as CLI argument (legacy)
- * - Stream-JSON: NDJSON piped to stdin with full multimodal support (images)
+ * - Stream-JSON: NDJSON piped to stdin with full multimodal support (images, PDFs)
  */
 
 import type {
+  OpenAIChatMessage,
   OpenAIChatRequest,
   OpenAIContentPart,
-  OpenAITextContentPart,
   OpenAIImageContentPart,
 } from "../types/openai.js";
-
-export type ClaudeModel = "opus" | "sonnet" | "haiku";
+import { buildToolsPrompt, formatToolCalls } from "./tools.js";
+import { buildResponseFormatPrompt } from "./structured-output.js";
+import { resolveThinkingBudget } from "./reasoning.js";
+import { convertFilePart, isAttachmentFilePart, isFilePart, type CliDocumentContent } from "./file-inputs.js";
+import { modelRegistry } from "../models/registry.js";
+import { logger, previewContent } from "../logging/logger.js";
 
 /**
  * Claude CLI stream-json content block types
  */
-interface CliTextContent {
+export interface CliTextContent {
   type: "text";
   text: string;
 }
 
-interface CliImageContent {
+export interface CliImageContent {
   type: "image";
   source: {
     type: "base64";
@@ -32,7 +36,7 @@ interface CliImageContent {
   };
 }
 
-type CliContentBlock = CliTextContent | CliImageContent;
+type CliContentBlock = CliTextContent | CliImageContent | CliDocumentContent;
 
 /**
  * NDJSON message format for Claude CLI --input-format stream-json
@@ -50,68 +54,35 @@ export interface CliInput {
   prompt: string;
   /** NDJSON lines for stdin piping (stream-json mode with image support) */
   stdinMessages: string[];
-  /** Whether the request contains images and needs stream-json mode */
-  hasImages: boolean;
-  model: ClaudeModel;
+  /** Whether the request contains images or PDFs and needs stream-json mode */
+  hasAttachments: boolean;
+  /** CLI --model argument from the model registry */
+  model: string;
+  /** Claude CLI session to create (or resume, with resumeSession) */
   sessionId?: string;
+  resumeSession?: boolean;
   systemPrompt?: string;
   tools?: string[];
-}
-
-const MODEL_MAP: Record<string, ClaudeModel> = {
-  // Direct model names
-  "claude-opus-4": "opus",
-  "claude-opus-4-6": "opus",
-  "claude-sonnet-4": "sonnet",
-  "claude-sonnet-4-5": "sonnet",
-  "claude-haiku-4": "haiku",
-  // With provider prefix
-  "claude-code-cli/claude-opus-4": "opus",
-  "claude-code-cli/claude-opus-4-6": "opus",
-  "claude-code-cli/claude-sonnet-4": "sonnet",
-  "claude-code-cli/claude-sonnet-4-5": "sonnet",
-  "claude-code-cli/claude-haiku-4": "haiku",
-  // Claude-max prefix (from OpenClaw config)
-  "claude-max/claude-opus-4": "opus",
-  "claude-max/claude-opus-4-6": "opus",
-  "claude-max/claude-sonnet-4": "sonnet",
-  "claude-max/claude-sonnet-4-5": "sonnet",
-  "claude-max/claude-haiku-4": "haiku",
-  // Aliases
-  "opus": "opus",
-  "sonnet": "sonnet",
-  "haiku": "haiku",
-  "opus-max": "opus",
-  "sonnet-max": "sonnet",
-};
-
-/**
- * Extract Claude model alias from request model string
- */
-export function extractModel(model: string): ClaudeModel {
-  if (MODEL_MAP[model]) {
-    return MODEL_MAP[model];
-  }
-  const stripped = model.replace(/^claude-code-cli\//, "");
-  if (MODEL_MAP[stripped]) {
-    return MODEL_MAP[stripped];
-  }
-  return "opus";
+  /** Whether client-declared functions were offered and tool calls should be parsed */
+  hasClientTools: boolean;
+  /** Extended thinking token budget (reasoning models only) */
+  thinkingBudget?: number;
 }
 
 /**
- * Check if any message in the request contains images
+ * Check if any message in the request contains images or PDF documents
  */
-function requestHasImages(messages: OpenAIChatRequest["messages"]): boolean {
+function requestHasAttachments(messages: OpenAIChatRequest["messages"]): boolean {
   return messages.some((msg) => {
-    if (typeof msg.content === "string") return false;
-    return msg.content.some((part) => part.type === "image_url");
+    if (!Array.isArray(msg.content)) return false;
+    return msg.content.some((part) => part.type === "image_url" || isAttachmentFilePart(part));
   });
 }
 
 /**
  * Convert an OpenAI image_url to a Claude CLI base64 image block.
  * Handles data URIs (data:image/png;base64,...) and passes through the data.
+ * http(s) URLs are downloaded beforehand by resolveRemoteImages.
  */
 function convertImagePart(part: OpenAIImageContentPart): CliImageContent | null {
   const url = part.image_url.url;
@@ -119,8 +90,8 @@ function convertImagePart(part: OpenAIImageContentPart): CliImageContent | null
   // Parse data URI: data:image/png;base64,iVBOR...
   const match = url.match(/^data:(image\/[a-z+]+);base64,(.+)$/i);
   if (!match) {
-    // Non-data-URI images (http URLs) are not supported by CLI
-    console.error("[openai-to-cli] Skipping non-data-URI image:", url.slice(0, 60));
+    // Remote images should already be data URIs; anything else is unusable
+    logger.warn("Skipping non-data-URI image", { url: previewContent(url) });
     return null;
   }
 
@@ -137,7 +108,10 @@ function convertImagePart(part: OpenAIImageContentPart): CliImageContent | null
 /**
  * Convert OpenAI content parts to Claude CLI content blocks
  */
-function convertContentParts(content: string | OpenAIContentPart[]): CliContentBlock[] {
+function convertContentParts(content: string | OpenAIContentPart[] | null): CliContentBlock[] {
+  if (content === null) {
+    return [];
+  }
   if (typeof content === "string") {
     return [{ type: "text", text: content }];
   }
@@ -149,6 +123,8 @@ function convertContentParts(content: string | OpenAIContentPart[]): CliContentB
     } else if (part.type === "image_url") {
       const img = convertImagePart(part);
       if (img) blocks.push(img);
+    } else if (isFilePart(part)) {
+      blocks.push(convertFilePart(part));
     }
   }
   return blocks;
@@ -158,25 +134,24 @@ function convertContentParts(content: string | OpenAIContentPart[]): CliContentB
  * Convert OpenAI messages to Claude CLI stream-json NDJSON lines.
  *
  * Claude CLI stream-json only accepts "user" role messages.
- * System and assistant messages are inlined as tagged text blocks
- * within the user message content.
+ * Assistant and tool messages are inlined as tagged text blocks within
+ * the user message content. System messages are left out: they travel
+ * in the system prompt (CLI arg, or inlined by the subprocess manager).
  */
 function messagesToStreamJson(messages: OpenAIChatRequest["messages"]): string[] {
   const allBlocks: CliContentBlock[] = [];
 
   for (const msg of messages) {
     switch (msg.role) {
-      case "system":
-      case "developer": {
-        const text = extractContent(msg.content);
-        allBlocks.push({ type: "text", text: `<system>\n${text}\n</system>` });
-        break;
-      }
       case "assistant": {
-        const text = extractContent(msg.content);
+        const text = assistantText(msg);
         allBlocks.push({ type: "text", text: `<previous_response>\n${text}\n</previous_response>` });
         break;
       }
+      case "tool": {
+        allBlocks.push({ type: "text", text: toolResultText(msg) });
+        break;
+      }
       case "user": {
         const blocks = convertContentParts(msg.content);
         allBlocks.push(...blocks);
@@ -204,20 +179,48 @@ function messagesToStreamJson(messages: OpenAIChatRequest["messages"]): string[]
  * normalises both forms into a single string.
  */
 export function extractContent(
-  content: string | OpenAIContentPart[],
+  content: string | OpenAIContentPart[] | null,
 ): string {
   if (typeof content === "string") return content;
 
   if (Array.isArray(content)) {
     return content
-      .filter((part): part is OpenAITextContentPart => part.type === "text" && typeof part.text === "string")
-      .map((part) => part.text)
+      .map((part) => {
+        if (part.type === "text" && typeof part.text === "string") return part.text;
+        if (!isFilePart(part)) return null;
+        // Text files are inlined; PDFs and images only exist as stream-json blocks
+        const block = convertFilePart(part);
+        if (block.type === "text") return block.text;
+        return block.type === "document" ? `[document: ${block.title || "PDF"}]` : "[image]";
+      })
+      .filter((text): text is string => text !== null)
       .join("\n");
   }
 
   return String(content ?? "");
 }
 
+/**
+ * Text for a replayed assistant turn, including any tool calls it made
+ */
+export function assistantText(msg: OpenAIChatMessage): string {
+  const text = extractContent(msg.content);
+  if (!msg.tool_calls?.length) return text;
+  const calls = formatToolCalls(msg.tool_calls);
+  return text ? `${text}\n${calls}` : calls;
+}
+
+/**
+ * Wrap a role "tool" message as a tagged tool result
+ */
+function toolResultText(msg: OpenAIChatMessage): string {
+  const attrs = [
+    msg.tool_call_id ? ` tool_call_id="${msg.tool_call_id}"` : "",
+    msg.name ? ` name="${msg.name}"` : "",
+  ].join("");
+  return `<tool_result${attrs}>\n${extractContent(msg.content)}\n</tool_result>`;
+}
+
 /**
  * Extract system messages and conversation from OpenAI messages array
  *
@@ -243,7 +246,10 @@ export function extractMessagesContent(messages: OpenAIChatRequest["messages"]):
         conversationParts.push(text);
         break;
       case "assistant":
-        conversationParts.push(`<previous_response>\n${text}\n</previous_response>\n`);
+        conversationParts.push(`<previous_response>\n${assistantText(msg)}\n</previous_response>\n`);
+        break;
+      case "tool":
+        conversationParts.push(toolResultText(msg));
         break;
     }
   }
@@ -271,19 +277,29 @@ export function messagesToPrompt(messages: OpenAIChatRequest["messages"]): strin
 
 /**
  * Convert OpenAI chat request to CLI input format.
- * Automatically chooses stream-json mode when images are present.
+ * Automatically chooses stream-json mode when images or PDFs are present.
+ * Client-declared functions and JSON response formats are described
+ * in the system prompt. Throws UnknownModelError for unknown models.
  */
 export function openaiToCli(request: OpenAIChatRequest): CliInput {
   const { systemPrompt, conversationPrompt } = extractMessagesContent(request.messages);
-  const hasImages = requestHasImages(request.messages);
+  const hasAttachments = requestHasAttachments(request.messages);
+  const toolsPrompt = buildToolsPrompt(
+    request.tools,
+    request.tool_choice,
+    request.parallel_tool_calls !== false
+  );
+  const formatPrompt = buildResponseFormatPrompt(request.response_format);
+  const model = modelRegistry.resolve(request.model);
 
   return {
     prompt: conversationPrompt,
     stdinMessages: messagesToStreamJson(request.messages),
-    hasImages,
-    model: extractModel(request.model),
-    sessionId: request.user,
-    systemPrompt,
+    hasAttachments,
+    model: model.cliModel,
+    systemPrompt: [systemPrompt, toolsPrompt, formatPrompt].filter(Boolean).join("\n\n") || undefined,
     tools: undefined,
+    hasClientTools: !!toolsPrompt,
+    thinkingBudget: resolveThinkingBudget(request, model),
   };
 }
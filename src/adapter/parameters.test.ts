@@ -0,0 +1,118 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OutputLimiter, ParameterError, applyOutputLimits, checkParameters, estimateTokens } from "./parameters.js";
+import type { OpenAIChatRequest } from "../types/openai.js";
+
+function chatRequest(overrides: Record<string, unknown>): OpenAIChatRequest {
+  return { model: "sonnet", messages: [{ role: "user", content: "hi" }], ...overrides } as OpenAIChatRequest;
+}
+
+describe("checkParameters", () => {
+  it("accepts well-formed response formats", () => {
+    for (const response_format of [
+      { type: "text" },
+      { type: "json_object" },
+      { type: "json_schema", json_schema: { name: "answer" } },
+      { type: "json_schema", json_schema: { name: "answer", schema: { type: "object", required: ["a"] } } },
+    ]) {
+      assert.doesNotThrow(() => checkParameters(chatRequest({ response_format }), false));
+    }
+  });
+
+  it("rejects malformed response formats with invalid_parameter", () => {
+    const cases: [unknown, RegExp][] = [
+      ["json", /response_format.type must be one of/],
+      [{ type: "yaml" }, /response_format.type must be one of/],
+      [{ type: "json_schema" }, /json_schema must be an object with a name/],
+      [{ type: "json_schema", json_schema: { schema: {} } }, /json_schema must be an object with a name/],
+      [
+        { type: "json_schema", json_schema: { name: "a", schema: { properties: { b: { enum: 5 } } } } },
+        /^Invalid JSON schema: response_format.json_schema.schema.properties.b.enum: must be an array$/,
+      ],
+    ];
+    for (const [response_format, message] of cases) {
+      assert.throws(
+        () => checkParameters(chatRequest({ response_format }), false),
+        (error: unknown) =>
+          error instanceof ParameterError &&
+          error.param === "response_format" &&
+          error.code === "invalid_parameter" &&
+          message.test(error.message)
+      );
+    }
+  });
+});
+
+describe("estimateTokens", () => {
+  it("counts four characters per token, rounding up", () => {
+    assert.equal(estimateTokens(""), 0);
+    assert.equal(estimateTokens("abcd"), 1);
+    assert.equal(estimateTokens("abcde"), 2);
+  });
+});
+
+describe("applyOutputLimits", () => {
+  it("leaves text within the limits alone", () => {
+    assert.deepEqual(applyOutputLimits("hello", { stop: ["bye"], maxTokens: 2 }), {
+      text: "hello",
+      finishReason: null,
+      stopSequence: null,
+    });
+  });
+
+  it("truncates at maxTokens * 4 characters", () => {
+    assert.deepEqual(applyOutputLimits("abcdefghijkl", { stop: [], maxTokens: 2 }), {
+      text: "abcdefgh",
+      finishReason: "length",
+      stopSequence: null,
+    });
+  });
+
+  it("reports the stop sequence that ended the text", () => {
+    assert.deepEqual(applyOutputLimits("yes\nno", { stop: ["\n"] }), {
+      text: "yes",
+      finishReason: "stop",
+      stopSequence: "\n",
+    });
+  });
+});
+
+describe("OutputLimiter", () => {
+  it("limits streamed text across deltas", () => {
+    const limiter = new OutputLimiter({ stop: [], maxTokens: 1 });
+    assert.equal(limiter.push("ab"), "ab");
+    assert.equal(limiter.push("cdef"), "cd");
+    assert.equal(limiter.finishReason, "length");
+    assert.equal(limiter.push("gh"), "");
+    assert.equal(limiter.flush(), "");
+  });
+
+  it("stops at a sequence split across deltas", () => {
+    const limiter = new OutputLimiter({ stop: ["END"] });
+    assert.equal(limiter.push("done E"), "done ");
+    assert.equal(limiter.push("ND ignored"), "");
+    assert.equal(limiter.finishReason, "stop");
+    assert.equal(limiter.stopSequence, "END");
+  });
+
+  it("counts held-back text against maxTokens when it is released", () => {
+    const limiter = new OutputLimiter({ stop: ["STOP"], maxTokens: 1 });
+    assert.equal(limiter.push("abST"), "ab");
+    assert.equal(limiter.stopped, false);
+    assert.equal(limiter.flush(), "ST");
+    assert.equal(limiter.finishReason, null);
+
+    const over = new OutputLimiter({ stop: ["STOP"], maxTokens: 1 });
+    assert.equal(over.push("abcST"), "abc");
+    assert.equal(over.flush(), "S");
+    assert.equal(over.finishReason, "length");
+    assert.equal(over.stopSequence, null);
+  });
+
+  it("prefers the token limit when it cuts before the stop sequence", () => {
+    const limiter = new OutputLimiter({ stop: ["STOP"], maxTokens: 1 });
+    assert.equal(limiter.push("abcdefSTOP"), "abcd");
+    assert.equal(limiter.finishReason, "length");
+    assert.equal(limiter.stopSequence, null);
+  });
+});
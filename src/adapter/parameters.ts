@@ -0,0 +1,257 @@
+/**
+ * Sampling and output parameters
+ *
+ * The CLI has no flags for sampling parameters or output limits, so:
+ * - stop and max_tokens / max_completion_tokens are enforced here by
+ *   cutting the output off (finish_reason "stop" / "length")
+ * - temperature, top_p, penalties, seed, logit_bias and logprobs can't be
+ *   honoured. With PARAMETER_MODE=strict requests setting them get a 400;
+ *   in the default lenient mode they are dropped and listed in the
+ *   X-Ignored-Parameters response header.
+ *
+ * Values equal to the OpenAI defaults (temperature 1, penalties 0, ...)
+ * change nothing and are not reported.
+ *
+ * max_tokens is counted with an estimate of ~4 characters per token, since
+ * the CLI only reports token usage once a turn ends.
+ *
+ * n (up to MAX_CHOICES, default 8) is accepted; routes run one CLI process
+ * per choice.
+ */
+
+import type { OpenAIChatRequest } from "../types/openai.js";
+import { StopSequenceMatcher } from "./stop-sequences.js";
+import { checkJsonSchema } from "./json-schema.js";
+
+/**
+ * Raised for invalid or (in strict mode) unsupported parameters; routes answer 400
+ */
+export class ParameterError extends Error {
+  constructor(
+    message: string,
+    public readonly param: string,
+    public readonly code: "invalid_parameter" | "unsupported_parameter"
+  ) {
+    super(message);
+    this.name = "ParameterError";
+  }
+}
+
+export interface OutputLimits {
+  stop: string[];
+  maxTokens?: number;
+}
+
+export const IGNORED_PARAMETERS_HEADER = "X-Ignored-Parameters";
+
+const STRICT = process.env.PARAMETER_MODE === "strict";
+
+// OpenAI allows up to 4 stop sequences
+const MAX_STOP_SEQUENCES = 4;
+
+const CHARS_PER_TOKEN = 4;
+
+export const MAX_CHOICES = (() => {
+  const value = parseInt(process.env.MAX_CHOICES || "", 10);
+  return isNaN(value) || value < 1 ? 8 : value;
+})();
+
+// Parameters the proxy can't honour, with the value that makes them a no-op
+const UNSUPPORTED_DEFAULTS: Partial<Record<keyof OpenAIChatRequest, unknown>> = {
+  temperature: 1,
+  top_p: 1,
+  frequency_penalty: 0,
+  presence_penalty: 0,
+  seed: undefined,
+  logit_bias: undefined,
+  logprobs: false,
+  top_logprobs: undefined,
+};
+
+function isNoOp(value: unknown, defaultValue: unknown): boolean {
+  if (value === undefined || value === null || value === defaultValue) return true;
+  return typeof value === "object" && Object.keys(value).length === 0;
+}
+
+function parseStop(stop: OpenAIChatRequest["stop"]): string[] {
+  if (stop === undefined || stop === null) return [];
+  const sequences = Array.isArray(stop) ? stop : [stop];
+  if (sequences.some((seq) => typeof seq !== "string")) {
+    throw new ParameterError("stop must be a string or an array of strings", "stop", "invalid_parameter");
+  }
+  if (sequences.length > MAX_STOP_SEQUENCES) {
+    throw new ParameterError(`stop accepts at most ${MAX_STOP_SEQUENCES} sequences`, "stop", "invalid_parameter");
+  }
+  return sequences.filter((seq) => seq.length > 0);
+}
+
+function parseChoiceCount(n: OpenAIChatRequest["n"]): number {
+  if (n === undefined || n === null) return 1;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < 1 || n > MAX_CHOICES) {
+    throw new ParameterError(`n must be an integer from 1 to ${MAX_CHOICES}`, "n", "invalid_parameter");
+  }
+  return n;
+}
+
+function checkResponseFormat(format: OpenAIChatRequest["response_format"]): void {
+  if (format === undefined || format === null) return;
+  const type = typeof format === "object" ? (format as { type?: unknown }).type : undefined;
+  if (type !== "text" && type !== "json_object" && type !== "json_schema") {
+    throw new ParameterError(
+      "response_format.type must be one of text, json_object, json_schema",
+      "response_format",
+      "invalid_parameter"
+    );
+  }
+  if (format.type !== "json_schema") return;
+
+  const jsonSchema = format.json_schema as unknown;
+  if (!jsonSchema || typeof jsonSchema !== "object" || typeof (jsonSchema as { name?: unknown }).name !== "string") {
+    throw new ParameterError(
+      "response_format.json_schema must be an object with a name",
+      "response_format",
+      "invalid_parameter"
+    );
+  }
+  if (format.json_schema.schema !== undefined) {
+    const error = checkJsonSchema(format.json_schema.schema, "response_format.json_schema.schema");
+    if (error) {
+      throw new ParameterError(`Invalid JSON schema: ${error}`, "response_format", "invalid_parameter");
+    }
+  }
+}
+
+function parseMaxTokens(request: OpenAIChatRequest): number | undefined {
+  const param = request.max_completion_tokens !== undefined ? "max_completion_tokens" : "max_tokens";
+  const value = request[param];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new ParameterError(`${param} must be a positive integer`, param, "invalid_parameter");
+  }
+  return value;
+}
+
+/**
+ * Check a chat request's parameters.
+ * Returns the output limits to enforce, the number of choices and the
+ * parameters being ignored. With enforceLimits false (validated JSON
+ * output, which can't be cut off) stop and max_tokens count as ignored
+ * too and n must be 1. alsoIgnored adds endpoint-specific parameters.
+ * Throws ParameterError for invalid values (including a malformed
+ * response_format), and for ignored ones in strict mode.
+ */
+export function checkParameters(
+  request: OpenAIChatRequest,
+  enforceLimits: boolean = true,
+  alsoIgnored: string[] = []
+): { limits: OutputLimits; n: number; ignored: string[] } {
+  const limits: OutputLimits = { stop: parseStop(request.stop), maxTokens: parseMaxTokens(request) };
+  const n = parseChoiceCount(request.n);
+  checkResponseFormat(request.response_format);
+
+  const ignored = Object.entries(UNSUPPORTED_DEFAULTS)
+    .filter(([param, defaultValue]) => !isNoOp(request[param as keyof OpenAIChatRequest], defaultValue))
+    .map(([param]) => param)
+    .concat(alsoIgnored);
+
+  if (!enforceLimits) {
+    if (n > 1) {
+      throw new ParameterError("n > 1 is not supported with a JSON response_format", "n", "unsupported_parameter");
+    }
+    if (limits.stop.length > 0) ignored.push("stop");
+    if (limits.maxTokens !== undefined) {
+      ignored.push(request.max_completion_tokens !== undefined ? "max_completion_tokens" : "max_tokens");
+    }
+    limits.stop = [];
+    limits.maxTokens = undefined;
+  }
+
+  if (STRICT && ignored.length > 0) {
+    throw new ParameterError(
+      `Unsupported parameter${ignored.length > 1 ? "s" : ""}: ${ignored.join(", ")}. ` +
+      "The Claude CLI can't apply these; leave them unset or at their default values.",
+      ignored[0],
+      "unsupported_parameter"
+    );
+  }
+  return { limits, n, ignored };
+}
+
+/**
+ * Rough token count for output limits
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Apply output limits to complete text
+ */
+export function applyOutputLimits(
+  text: string,
+  limits: OutputLimits
+): { text: string; finishReason: "stop" | "length" | null; stopSequence: string | null } {
+  const limiter = new OutputLimiter(limits);
+  const output = limiter.push(text) + limiter.flush();
+  return { text: output, finishReason: limiter.finishReason, stopSequence: limiter.stopSequence };
+}
+
+/**
+ * Incremental stop sequence and max_tokens enforcement for streamed text.
+ * Once a limit is hit all further input is discarded and finishReason is set.
+ */
+export class OutputLimiter {
+  private matcher: StopSequenceMatcher;
+  private maxChars: number;
+  private emitted: number = 0;
+  finishReason: "stop" | "length" | null = null;
+
+  constructor(limits: OutputLimits) {
+    this.matcher = new StopSequenceMatcher(limits.stop);
+    this.maxChars = limits.maxTokens !== undefined ? limits.maxTokens * CHARS_PER_TOKEN : Infinity;
+  }
+
+  /**
+   * Whether a stop sequence or the token limit has been hit
+   */
+  get stopped(): boolean {
+    return this.finishReason !== null;
+  }
+
+  /**
+   * The stop sequence that ended the output, if any
+   */
+  get stopSequence(): string | null {
+    return this.finishReason === "stop" ? this.matcher.stopSequence : null;
+  }
+
+  /**
+   * Feed a text delta. Returns the text that is safe to emit.
+   */
+  push(text: string): string {
+    if (this.stopped) return "";
+    const output = this.limit(this.matcher.push(text));
+    if (!this.stopped && this.matcher.stopped) {
+      this.finishReason = "stop";
+    }
+    return output;
+  }
+
+  /**
+   * Release held-back text at end of stream
+   */
+  flush(): string {
+    return this.stopped ? "" : this.limit(this.matcher.flush());
+  }
+
+  private limit(text: string): string {
+    if (this.emitted + text.length <= this.maxChars) {
+      this.emitted += text.length;
+      return text;
+    }
+    const allowed = text.slice(0, this.maxChars - this.emitted);
+    this.emitted = this.maxChars;
+    this.finishReason = "length";
+    return allowed;
+  }
+}
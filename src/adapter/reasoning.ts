@@ -0,0 +1,59 @@
+/**
+ * Extended thinking support
+ *
+ * OpenAI reasoning_effort (or an Anthropic-style thinking budget) is turned
+ * into a thinking token budget for the CLI, which reads it from the
+ * MAX_THINKING_TOKENS environment variable. Thinking output is returned
+ * to clients as reasoning_content.
+ *
+ * Only models with the reasoning capability in the model registry think
+ * (REASONING_MODELS, a list of model ids, aliases or CLI models, overrides
+ * it); the option is ignored for other models.
+ */
+
+import type { OpenAIChatRequest, OpenAIReasoningEffort } from "../types/openai.js";
+import type { ModelDefinition } from "../models/registry.js";
+
+// Budgets match the CLI's own "think" / "think hard" / "ultrathink" levels
+const EFFORT_BUDGETS: Record<OpenAIReasoningEffort, number> = {
+  minimal: 0,
+  low: 4000,
+  medium: 10000,
+  high: 31999,
+};
+
+// Smallest budget the API accepts
+const MIN_BUDGET = 1024;
+
+const REASONING_MODELS = process.env.REASONING_MODELS
+  ? new Set(process.env.REASONING_MODELS.split(",").map((m) => m.trim()).filter(Boolean))
+  : null;
+
+/**
+ * Whether a model supports extended thinking through the proxy
+ */
+export function supportsReasoning(model: ModelDefinition): boolean {
+  if (!REASONING_MODELS) return model.capabilities.reasoning;
+  return [model.id, model.cliModel, ...model.aliases].some((name) => REASONING_MODELS.has(name));
+}
+
+/**
+ * Resolve the thinking budget for a request.
+ * Returns undefined when thinking is off or the model doesn't reason.
+ */
+export function resolveThinkingBudget(
+  request: Pick<OpenAIChatRequest, "reasoning_effort" | "thinking">,
+  model: ModelDefinition
+): number | undefined {
+  let budget: number | undefined;
+  if (request.thinking) {
+    budget = request.thinking.type === "enabled" ? request.thinking.budget_tokens : 0;
+  } else if (request.reasoning_effort) {
+    budget = EFFORT_BUDGETS[request.reasoning_effort];
+  }
+
+  if (!budget || !supportsReasoning(model)) {
+    return undefined;
+  }
+  return Math.max(MIN_BUDGET, Math.floor(budget));
+}
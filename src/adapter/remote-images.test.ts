@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isPrivateAddress } from "./remote-images.js";
+
+describe("isPrivateAddress", () => {
+  it("rejects private and reserved IPv4 ranges", () => {
+    for (const address of [
+      "0.0.0.0", "10.1.2.3", "100.64.0.1", "127.0.0.1", "169.254.169.254",
+      "172.16.0.1", "172.31.255.255", "192.168.1.1", "198.18.0.1", "224.0.0.1", "255.255.255.255",
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it("rejects loopback, unique local, link-local and multicast IPv6", () => {
+    for (const address of ["::", "::1", "fc00::1", "fd12:3456::1", "fe80::1", "ff02::1"]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it("checks IPv4-mapped IPv6 addresses as IPv4", () => {
+    assert.equal(isPrivateAddress("::ffff:10.0.0.1"), true);
+    assert.equal(isPrivateAddress("::FFFF:127.0.0.1"), true);
+    assert.equal(isPrivateAddress("::ffff:93.184.216.34"), false);
+  });
+
+  it("allows public addresses", () => {
+    for (const address of ["8.8.8.8", "93.184.216.34", "172.32.0.1", "2606:4700::1111", "2001:4860:4860::8888"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
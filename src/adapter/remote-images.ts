@@ -0,0 +1,318 @@
+/**
+ * Remote image fetching
+ *
+ * The CLI only accepts base64 image blocks, so http(s) image_url parts are
+ * downloaded and rewritten to data URIs before conversion. Downloads are
+ * bounded by a timeout and byte limit, the image type is sniffed from the
+ * bytes, and results are cached by URL hash.
+ *
+ * To guard against SSRF, hosts resolving to private, loopback or
+ * link-local addresses are refused (IMAGE_FETCH_ALLOW_PRIVATE=true to allow),
+ * and hosts can be restricted with allow/deny lists. Addresses are checked
+ * inside the connection's own DNS lookup, so the socket connects to the
+ * address that was checked (a rebinding DNS answer can't slip in between).
+ * Redirects are followed manually so every hop is checked.
+ *
+ * Configuration (environment):
+ * - IMAGE_FETCH_TIMEOUT_MS: timeout for the whole download (default 10000)
+ * - IMAGE_FETCH_MAX_BYTES: largest image accepted (default 5 MB)
+ * - IMAGE_FETCH_ALLOWED_HOSTS: comma separated hosts, "*.example.com" for subdomains; empty = any
+ * - IMAGE_FETCH_DENIED_HOSTS: comma separated hosts that are always refused
+ * - IMAGE_CACHE_MAX_BYTES: cache size (default 50 MB, 0 = off)
+ * - IMAGE_CACHE_TTL_MS: how long cached images are reused (default 1 hour)
+ */
+
+import { createHash } from "crypto";
+import dns from "dns";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import net from "net";
+import { sniffMediaType } from "./file-inputs.js";
+import type { OpenAIChatRequest, OpenAIContentPart, OpenAIImageContentPart } from "../types/openai.js";
+
+/**
+ * Raised when a remote image can't be used; routes answer 400
+ */
+export class ImageFetchError extends Error {
+  constructor(message: string, public readonly url: string) {
+    super(message);
+    this.name = "ImageFetchError";
+  }
+}
+
+interface CachedImage {
+  mediaType: string;
+  data: string; // base64
+  expiresAt: number;
+}
+
+function parseIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+function parseHostList(value: string | undefined): string[] {
+  return (value || "").split(",").map((h) => h.trim().toLowerCase()).filter(Boolean);
+}
+
+const FETCH_TIMEOUT_MS = parseIntEnv("IMAGE_FETCH_TIMEOUT_MS", 10000);
+const MAX_IMAGE_BYTES = parseIntEnv("IMAGE_FETCH_MAX_BYTES", 5 * 1024 * 1024);
+const ALLOWED_HOSTS = parseHostList(process.env.IMAGE_FETCH_ALLOWED_HOSTS);
+const DENIED_HOSTS = parseHostList(process.env.IMAGE_FETCH_DENIED_HOSTS);
+const ALLOW_PRIVATE = process.env.IMAGE_FETCH_ALLOW_PRIVATE === "true";
+const CACHE_MAX_BYTES = parseIntEnv("IMAGE_CACHE_MAX_BYTES", 50 * 1024 * 1024);
+const CACHE_TTL_MS = parseIntEnv("IMAGE_CACHE_TTL_MS", 60 * 60 * 1000);
+const MAX_REDIRECTS = 3;
+
+// Addresses that must not be reachable through the proxy
+const privateRanges = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8],
+  ["169.254.0.0", 16], ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16],
+  ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  privateRanges.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  privateRanges.addSubnet(address, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise
+ * not meant to be reachable through the proxy
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return privateRanges.check(mapped[1], "ipv4");
+  return privateRanges.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+function hostMatches(host: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern
+  );
+}
+
+/**
+ * Check a URL against the scheme and host lists, and IP literal hosts
+ * against the private address rules (resolved hosts are checked in
+ * checkedLookup)
+ */
+function checkUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ImageFetchError(`Unsupported image URL scheme '${url.protocol}'`, url.href);
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (hostMatches(host, DENIED_HOSTS) || (ALLOWED_HOSTS.length > 0 && !hostMatches(host, ALLOWED_HOSTS))) {
+    throw new ImageFetchError(`Image host '${host}' is not allowed`, url.href);
+  }
+  if (!ALLOW_PRIVATE && net.isIP(host) && isPrivateAddress(host)) {
+    throw new ImageFetchError(`Image host '${host}' resolves to a private address`, url.href);
+  }
+}
+
+/**
+ * DNS lookup for the image connection that refuses private addresses.
+ * The socket connects to the addresses returned here.
+ */
+function checkedLookup(url: URL): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err || addresses.length === 0) {
+        callback(new ImageFetchError(`Could not resolve image host '${hostname}'`, url.href), "");
+        return;
+      }
+      if (addresses.some((entry) => isPrivateAddress(entry.address))) {
+        callback(new ImageFetchError(`Image host '${hostname}' resolves to a private address`, url.href), "");
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+/**
+ * GET a URL without following redirects
+ */
+function request(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    client
+      .get(url, {
+        signal,
+        headers: { Accept: "image/*" },
+        lookup: ALLOW_PRIVATE ? undefined : checkedLookup(url),
+      }, resolve)
+      .on("error", reject);
+  });
+}
+
+/**
+ * Read a response body, failing once it exceeds the byte limit
+ */
+async function readLimited(response: IncomingMessage, url: string): Promise<Buffer> {
+  const declared = parseInt(response.headers["content-length"] || "", 10);
+  if (declared > MAX_IMAGE_BYTES) {
+    response.destroy();
+    throw new ImageFetchError(`Image is too large (${declared} bytes, limit ${MAX_IMAGE_BYTES})`, url);
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of response) {
+    total += chunk.length;
+    if (total > MAX_IMAGE_BYTES) {
+      response.destroy();
+      throw new ImageFetchError(`Image is too large (over ${MAX_IMAGE_BYTES} bytes)`, url);
+    }
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+async function download(rawUrl: string): Promise<CachedImage> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new ImageFetchError("Invalid image URL", rawUrl);
+  }
+
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      checkUrl(url);
+      const response = await request(url, signal);
+      const status = response.statusCode || 0;
+
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        url = new URL(location, url);
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new ImageFetchError(`Image download failed with HTTP ${status}`, rawUrl);
+      }
+
+      const bytes = await readLimited(response, rawUrl);
+      const mediaType = sniffMediaType(bytes);
+      if (!mediaType?.startsWith("image/")) {
+        const declared = response.headers["content-type"] || "unknown";
+        throw new ImageFetchError(
+          `Unsupported image type (content-type ${declared}); expected PNG, JPEG, GIF or WebP`,
+          rawUrl
+        );
+      }
+      return { mediaType, data: bytes.toString("base64"), expiresAt: Date.now() + CACHE_TTL_MS };
+    }
+    throw new ImageFetchError(`Too many redirects (limit ${MAX_REDIRECTS})`, rawUrl);
+  } catch (error) {
+    if (error instanceof ImageFetchError) throw error;
+    const reason = signal.aborted
+      ? `timed out after ${FETCH_TIMEOUT_MS}ms`
+      : error instanceof Error ? error.message : String(error);
+    throw new ImageFetchError(`Image download failed: ${reason}`, rawUrl);
+  }
+}
+
+/**
+ * LRU cache of downloaded images, bounded by total base64 size
+ */
+class ImageCache {
+  private entries: Map<string, CachedImage> = new Map();
+  private inFlight: Map<string, Promise<CachedImage>> = new Map();
+  private bytes: number = 0;
+
+  async get(url: string): Promise<CachedImage> {
+    const key = createHash("sha256").update(url).digest("hex");
+
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+    if (cached) this.remove(key);
+
+    // Concurrent requests for the same URL share one download
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = download(url).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    const image = await pending;
+    this.store(key, image);
+    return image;
+  }
+
+  private store(key: string, image: CachedImage): void {
+    if (this.entries.has(key) || image.data.length > CACHE_MAX_BYTES) return;
+    this.entries.set(key, image);
+    this.bytes += image.data.length;
+    for (const oldest of this.entries.keys()) {
+      if (this.bytes <= CACHE_MAX_BYTES) break;
+      this.remove(oldest);
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.bytes -= entry.data.length;
+    this.entries.delete(key);
+  }
+}
+
+const imageCache = new ImageCache();
+
+function isRemoteImage(part: OpenAIContentPart): part is OpenAIImageContentPart {
+  return part.type === "image_url" && /^https?:\/\//i.test(part.image_url.url);
+}
+
+/**
+ * Replace http(s) image URLs in a request with base64 data URIs.
+ * Returns the request unchanged when it has no remote images.
+ * Throws ImageFetchError if any image can't be fetched.
+ */
+export async function resolveRemoteImages<T extends Pick<OpenAIChatRequest, "messages">>(request: T): Promise<T> {
+  const urls = new Set<string>();
+  for (const msg of request.messages) {
+    if (!Array.isArray(msg.content)) continue;
+    for (const part of msg.content) {
+      if (isRemoteImage(part)) urls.add(part.image_url.url);
+    }
+  }
+  if (urls.size === 0) return request;
+
+  const resolved = new Map<string, string>();
+  await Promise.all([...urls].map(async (url) => {
+    const image = await imageCache.get(url);
+    resolved.set(url, `data:${image.mediaType};base64,${image.data}`);
+  }));
+
+  return {
+    ...request,
+    messages: request.messages.map((msg) => {
+      if (!Array.isArray(msg.content)) return msg;
+      return {
+        ...msg,
+        content: msg.content.map((part) =>
+          part.type === "image_url" && resolved.has(part.image_url.url)
+            ? { ...part, image_url: { ...part.image_url, url: resolved.get(part.image_url.url)! } }
+            : part
+        ),
+      };
+    }),
+  };
+}
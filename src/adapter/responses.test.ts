@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createResponseObject, responsesOutputLimits } from "./responses.js";
+import { ParameterError } from "./parameters.js";
+import type { ResponsesRequest } from "../types/responses.js";
+import type { ClaudeCliResult } from "../types/claude-cli.js";
+
+const request: ResponsesRequest = { model: "sonnet", input: "hi" };
+
+const result = {
+  type: "result",
+  subtype: "success",
+  is_error: false,
+  result: "Hello there",
+  usage: { input_tokens: 10, output_tokens: 7 },
+} as ClaudeCliResult;
+
+describe("responsesOutputLimits", () => {
+  it("maps max_output_tokens to a token limit", () => {
+    assert.deepEqual(responsesOutputLimits(request), { stop: [] });
+    assert.deepEqual(responsesOutputLimits({ ...request, max_output_tokens: 16 }), { stop: [], maxTokens: 16 });
+  });
+
+  it("rejects values that are not positive integers", () => {
+    for (const max_output_tokens of [0, -1, 1.5, "16"]) {
+      assert.throws(
+        () => responsesOutputLimits({ ...request, max_output_tokens } as ResponsesRequest),
+        (error: unknown) => error instanceof ParameterError && error.param === "max_output_tokens"
+      );
+    }
+  });
+});
+
+describe("createResponseObject", () => {
+  it("reports a completed run with the CLI's usage", () => {
+    const response = createResponseObject("resp_1", request, { text: "Hello there", result });
+    assert.equal(response.status, "completed");
+    assert.equal(response.incomplete_details, null);
+    assert.equal(response.output[0].status, "completed");
+    assert.deepEqual(response.usage, { input_tokens: 10, output_tokens: 7, total_tokens: 17 });
+  });
+
+  it("reports output cut at max_output_tokens as incomplete", () => {
+    const response = createResponseObject("resp_1", request, { text: "Hello th", result, truncated: true });
+    assert.equal(response.status, "incomplete");
+    assert.deepEqual(response.incomplete_details, { reason: "max_output_tokens" });
+    assert.equal(response.output[0].status, "incomplete");
+    assert.equal(response.output_text, "Hello th");
+    // Truncated output is counted at its estimated size
+    assert.deepEqual(response.usage, { input_tokens: 10, output_tokens: 2, total_tokens: 12 });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Converts between the OpenAI Responses API and the chat request format
+ *
+ * Responses requests are flattened into an OpenAIChatRequest so they share
+ * the openaiToCli conversion; results are wrapped back into response objects.
+ */
+
+import type { ClaudeCliResult } from "../types/claude-cli.js";
+import { ParameterError, estimateTokens, type OutputLimits } from "./parameters.js";
+import type {
+  OpenAIChatMessage,
+  OpenAIChatRequest,
+  OpenAIContentPart,
+} from "../types/openai.js";
+import type {
+  ResponsesInputContent,
+  ResponsesInputMessage,
+  ResponsesRequest,
+  ResponsesResponse,
+} from "../types/responses.js";
+
+/**
+ * Convert Responses content items to OpenAI content parts
+ */
+function convertInputContent(content: string | ResponsesInputContent[]): string | OpenAIContentPart[] {
+  if (typeof content === "string") return content;
+
+  const parts: OpenAIContentPart[] = [];
+  for (const item of content) {
+    if (item.type === "input_text" || item.type === "output_text") {
+      parts.push({ type: "text", text: item.text });
+    } else if (item.type === "input_image" && item.file_id) {
+      parts.push({ type: "input_file", file_id: item.file_id });
+    } else if (item.type === "input_image") {
+      parts.push({ type: "image_url", image_url: { url: item.image_url || "", detail: item.detail } });
+    } else if (item.type === "input_file") {
+      parts.push(item);
+    } else {
+      throw new Error(`Unsupported input content type: ${(item as { type: string }).type}`);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Convert the input field (string or item list) to chat messages
+ */
+export function responsesInputToMessages(input: ResponsesRequest["input"]): OpenAIChatMessage[] {
+  if (typeof input === "string") {
+    return [{ role: "user", content: input }];
+  }
+
+  return input.map((item: ResponsesInputMessage) => {
+    if (item.type !== undefined && item.type !== "message") {
+      throw new Error(`Unsupported input item type: ${item.type}`);
+    }
+    return { role: item.role, content: convertInputContent(item.content) };
+  });
+}
+
+/**
+ * Map a Responses request onto the chat request shape.
+ * History from previous_response_id goes between instructions and input.
+ */
+export function responsesToOpenai(
+  request: ResponsesRequest,
+  inputMessages: OpenAIChatMessage[],
+  history: OpenAIChatMessage[] = []
+): OpenAIChatRequest {
+  const messages: OpenAIChatMessage[] = [];
+  if (request.instructions) {
+    messages.push({ role: "system", content: request.instructions });
+  }
+  messages.push(...history, ...inputMessages);
+
+  return {
+    model: request.model,
+    messages,
+    stream: request.stream,
+    max_tokens: request.max_output_tokens,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    user: request.user,
+  };
+}
+
+/**
+ * max_output_tokens of a request, enforced by the proxy like max_tokens.
+ * Throws ParameterError for an invalid value.
+ */
+export function responsesOutputLimits(request: ResponsesRequest): OutputLimits {
+  const maxTokens = request.max_output_tokens;
+  if (maxTokens === undefined || maxTokens === null) return { stop: [] };
+  if (typeof maxTokens !== "number" || !Number.isInteger(maxTokens) || maxTokens < 1) {
+    throw new ParameterError("max_output_tokens must be a positive integer", "max_output_tokens", "invalid_parameter");
+  }
+  return { stop: [], maxTokens };
+}
+
+/**
+ * Build a response object.
+ * Pass text and result once the run has completed; omit them for the
+ * in-progress snapshot sent with response.created. truncated marks
+ * output cut off at max_output_tokens (status "incomplete").
+ */
+export function createResponseObject(
+  responseId: string,
+  request: ResponsesRequest,
+  completed?: { text: string; result?: ClaudeCliResult; truncated?: boolean }
+): ResponsesResponse {
+  const usage = completed?.result?.usage;
+  const truncated = completed?.truncated === true;
+  // Truncated output is reported at its estimated size
+  const outputTokens = truncated ? estimateTokens(completed.text) : usage?.output_tokens || 0;
+
+  return {
+    id: responseId,
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status: !completed ? "in_progress" : truncated ? "incomplete" : "completed",
+    model: request.model,
+    instructions: request.instructions ?? null,
+    previous_response_id: request.previous_response_id ?? null,
+    output: completed
+      ? [
+          {
+            type: "message",
+            id: `msg_${responseId.replace(/^resp_/, "")}`,
+            status: truncated ? "incomplete" : "completed",
+            role: "assistant",
+            content: [{ type: "output_text", text: completed.text, annotations: [] }],
+          },
+        ]
+      : [],
+    output_text: completed?.text ?? "",
+    error: null,
+    incomplete_details: truncated ? { reason: "max_output_tokens" } : null,
+    usage: completed
+      ? {
+          input_tokens: usage?.input_tokens || 0,
+          output_tokens: outputTokens,
+          total_tokens: (usage?.input_tokens || 0) + outputTokens,
+        }
+      : null,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { StopSequenceMatcher, truncateAtStopSequence } from "./stop-sequences.js";
+
+/**
+ * Feed deltas through a matcher and collect everything it emits
+ */
+function stream(matcher: StopSequenceMatcher, deltas: string[]): string {
+  return deltas.map((delta) => matcher.push(delta)).join("") + matcher.flush();
+}
+
+describe("truncateAtStopSequence", () => {
+  it("cuts at the earliest sequence", () => {
+    assert.deepEqual(truncateAtStopSequence("one\n\nEND two STOP", ["STOP", "END"]), {
+      text: "one\n\n",
+      stopSequence: "END",
+    });
+  });
+
+  it("returns the text unchanged without a match", () => {
+    assert.deepEqual(truncateAtStopSequence("hello", ["", "bye"]), { text: "hello", stopSequence: null });
+  });
+});
+
+describe("StopSequenceMatcher", () => {
+  it("passes text straight through without stop sequences", () => {
+    const matcher = new StopSequenceMatcher([""]);
+    assert.equal(matcher.push("abc"), "abc");
+    assert.equal(matcher.stopped, false);
+  });
+
+  it("matches a sequence split across deltas without emitting part of it", () => {
+    const matcher = new StopSequenceMatcher(["</answer>"]);
+    assert.equal(matcher.push("42</an"), "42");
+    assert.equal(matcher.push("swer> trailing"), "");
+    assert.equal(matcher.stopSequence, "</answer>");
+    assert.equal(matcher.push("more"), "");
+    assert.equal(matcher.flush(), "");
+  });
+
+  it("releases held-back text once it cannot start a sequence", () => {
+    const matcher = new StopSequenceMatcher(["STOP"]);
+    assert.equal(matcher.push("ST"), "");
+    assert.equal(matcher.push("AY"), "STAY");
+    assert.equal(matcher.push("ST"), "");
+    assert.equal(matcher.flush(), "ST");
+    assert.equal(matcher.stopped, false);
+  });
+
+  it("emits the same text as truncating the whole output", () => {
+    const text = "a-b-c--d---e";
+    const sequences = ["---", "c--"];
+    const expected = truncateAtStopSequence(text, sequences).text;
+    for (let size = 1; size <= text.length; size++) {
+      const deltas: string[] = [];
+      for (let i = 0; i < text.length; i += size) deltas.push(text.slice(i, i + size));
+      assert.equal(stream(new StopSequenceMatcher(sequences), deltas), expected, `delta size ${size}`);
+    }
+  });
+});
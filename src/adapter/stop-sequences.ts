@@ -0,0 +1,94 @@
+/**
+ * Proxy-side stop sequence handling
+ *
+ * Claude CLI has no flag for stop sequences, so output is cut off here
+ * once one appears.
+ */
+
+/**
+ * Truncate text at the earliest stop sequence.
+ * Returns the matched sequence, or null if none occurred.
+ */
+export function truncateAtStopSequence(
+  text: string,
+  stopSequences: string[]
+): { text: string; stopSequence: string | null } {
+  let cut = -1;
+  let matched: string | null = null;
+
+  for (const seq of stopSequences) {
+    if (!seq) continue;
+    const index = text.indexOf(seq);
+    if (index !== -1 && (cut === -1 || index < cut)) {
+      cut = index;
+      matched = seq;
+    }
+  }
+
+  return matched ? { text: text.slice(0, cut), stopSequence: matched } : { text, stopSequence: null };
+}
+
+/**
+ * Incremental stop sequence matcher for streaming output.
+ *
+ * Text that could be the start of a stop sequence is held back until
+ * the next delta decides it, so a sequence split across deltas is never
+ * partially emitted.
+ */
+export class StopSequenceMatcher {
+  private pending: string = "";
+  private stopSequences: string[];
+  private maxLength: number;
+  stopSequence: string | null = null;
+
+  constructor(stopSequences: string[]) {
+    this.stopSequences = stopSequences.filter((seq) => seq.length > 0);
+    this.maxLength = Math.max(0, ...this.stopSequences.map((seq) => seq.length));
+  }
+
+  /**
+   * Whether a stop sequence has been matched
+   */
+  get stopped(): boolean {
+    return this.stopSequence !== null;
+  }
+
+  /**
+   * Feed a text delta. Returns the text that is safe to emit.
+   * Once a stop sequence matches, all further input is discarded.
+   */
+  push(text: string): string {
+    if (this.stopped) return "";
+    if (this.stopSequences.length === 0) return text;
+
+    this.pending += text;
+    const { text: before, stopSequence } = truncateAtStopSequence(this.pending, this.stopSequences);
+    if (stopSequence) {
+      this.stopSequence = stopSequence;
+      this.pending = "";
+      return before;
+    }
+
+    // Keep the longest suffix that is a prefix of some stop sequence
+    let keep = 0;
+    for (let len = Math.min(this.maxLength - 1, this.pending.length); len > 0; len--) {
+      const suffix = this.pending.slice(-len);
+      if (this.stopSequences.some((seq) => seq.startsWith(suffix))) {
+        keep = len;
+        break;
+      }
+    }
+    const emit = this.pending.slice(0, this.pending.length - keep);
+    this.pending = this.pending.slice(this.pending.length - keep);
+    return emit;
+  }
+
+  /**
+   * Release held-back text at end of stream
+   */
+  flush(): string {
+    const rest = this.stopped ? "" : this.pending;
+    this.pending = "";
+    return rest;
+  }
+}
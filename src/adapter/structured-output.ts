@@ -0,0 +1,121 @@
+/**
+ * Structured output support (response_format json_object / json_schema)
+ *
+ * The schema is described to the model in the system prompt; the result
+ * is extracted from any surrounding prose, parsed and validated. Failed
+ * results are sent back to the model with the errors for a bounded retry.
+ */
+
+import type { OpenAIResponseFormat } from "../types/openai.js";
+import { validateJsonSchema, type JsonSchema } from "./json-schema.js";
+
+export type StructuredOutputResult =
+  | { ok: true; json: string; value: unknown }
+  | { ok: false; errors: string[] };
+
+/**
+ * Whether a response_format asks for JSON output
+ */
+export function isJsonResponseFormat(
+  format: OpenAIResponseFormat | undefined
+): format is Exclude<OpenAIResponseFormat, { type: "text" }> {
+  return format?.type === "json_object" || format?.type === "json_schema";
+}
+
+/**
+ * Build the system prompt section for a JSON response format.
+ * Returns undefined for plain text output.
+ */
+export function buildResponseFormatPrompt(format: OpenAIResponseFormat | undefined): string | undefined {
+  if (!isJsonResponseFormat(format)) return undefined;
+
+  const lines = [
+    "# Response format",
+    "",
+    "Respond with a single JSON value and nothing else: no prose before or after it,",
+    "no markdown code fences, no comments.",
+  ];
+
+  if (format.type === "json_schema") {
+    const { name, description, schema } = format.json_schema;
+    lines.push(
+      "",
+      `The JSON must conform to the JSON Schema "${name}"${description ? ` (${description})` : ""}:`,
+      JSON.stringify(schema ?? {}, null, 2)
+    );
+  } else {
+    lines.push("The JSON value must be an object.");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Extract JSON content from model response.
+ * Claude often outputs prose before/after JSON in code fences.
+ * This extracts the last JSON code fence block, or falls back to
+ * finding a raw JSON object/array in the text.
+ */
+export function stripCodeFences(text: string): string {
+  // Find all code fence blocks and take the last one (most likely the JSON)
+  const fenceMatches = [...text.matchAll(/```(?:\w*)\n([\s\S]*?)\n```/g)];
+  if (fenceMatches.length > 0) {
+    return fenceMatches[fenceMatches.length - 1][1];
+  }
+
+  // Try to extract a raw JSON object or array
+  const jsonMatch = text.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
+  if (jsonMatch) {
+    try {
+      JSON.parse(jsonMatch[1]);
+      return jsonMatch[1];
+    } catch {
+      // Not valid JSON, return original
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Extract, parse and validate model output against a JSON response format
+ */
+export function parseStructuredOutput(
+  text: string,
+  format: Exclude<OpenAIResponseFormat, { type: "text" }>
+): StructuredOutputResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text.trim());
+  } catch {
+    try {
+      value = JSON.parse(stripCodeFences(text).trim());
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : "invalid JSON";
+      return { ok: false, errors: [`Response is not valid JSON: ${reason}`] };
+    }
+  }
+
+  const errors = format.type === "json_schema"
+    ? validateJsonSchema(value, (format.json_schema.schema ?? {}) as JsonSchema)
+    : (value === null || typeof value !== "object" || Array.isArray(value))
+      ? ["$: expected a JSON object"]
+      : [];
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, json: JSON.stringify(value), value };
+}
+
+/**
+ * Follow-up user message asking the model to fix invalid output
+ */
+export function buildCorrectionPrompt(errors: string[]): string {
+  return [
+    "Your previous response did not satisfy the required response format:",
+    ...errors.map((e) => `- ${e}`),
+    "",
+    "Reply again with only the corrected JSON.",
+  ].join("\n");
+}
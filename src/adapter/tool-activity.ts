@@ -0,0 +1,162 @@
+/**
+ * Built-in tool activity
+ *
+ * When the CLI runs its own tools (Read, Bash, ...) the model produces no
+ * text until they finish, so streaming clients see long silences. The
+ * tool_use blocks from assistant messages and the tool_result blocks the
+ * CLI feeds back are tracked here and reported to clients in one of two
+ * modes:
+ *
+ * - "events": named SSE events (`event: tool_activity`) next to the chunks
+ * - "tool_calls": chunk deltas with tool_calls entries marked executed: true
+ *
+ * These tools already ran on the server; clients must not run them again.
+ * Non-streaming responses carry a tool_activity summary on the message.
+ *
+ * Configuration (environment):
+ * - TOOL_ACTIVITY: default mode when the request doesn't pick one (default "off")
+ * - TOOL_RESULT_MAX_CHARS: longest tool result reported (default 2000)
+ */
+
+import type { ClaudeCliAssistant, ClaudeCliUser } from "../types/claude-cli.js";
+import type { OpenAIChatChunkToolCall, ToolActivity, ToolActivityMode } from "../types/openai.js";
+
+export const TOOL_ACTIVITY_HEADER = "x-tool-activity";
+
+const MODES: ToolActivityMode[] = ["off", "events", "tool_calls"];
+
+function parseMode(value: unknown): ToolActivityMode | undefined {
+  return MODES.find((mode) => mode === value);
+}
+
+const DEFAULT_MODE = parseMode(process.env.TOOL_ACTIVITY) || "off";
+
+const RESULT_MAX_CHARS = (() => {
+  const value = parseInt(process.env.TOOL_RESULT_MAX_CHARS || "", 10);
+  return isNaN(value) || value < 0 ? 2000 : value;
+})();
+
+/**
+ * Pick the reporting mode from the request field, the X-Tool-Activity
+ * header or TOOL_ACTIVITY, in that order
+ */
+export function resolveToolActivityMode(requested: unknown, header: string | undefined): ToolActivityMode {
+  return parseMode(requested) || parseMode(header?.trim().toLowerCase()) || DEFAULT_MODE;
+}
+
+function resultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((block) => {
+      if (block?.type === "text" && typeof block.text === "string") return block.text;
+      return block?.type ? `[${block.type}]` : "";
+    })
+    .join("\n");
+}
+
+/**
+ * Follows tool_use / tool_result pairs across a CLI run
+ */
+export class ToolActivityTracker {
+  private activities: Map<string, ToolActivity> = new Map();
+
+  /**
+   * Record tool_use blocks; returns the tools that just started
+   */
+  onAssistant(message: ClaudeCliAssistant): ToolActivity[] {
+    const started: ToolActivity[] = [];
+    for (const block of message.message.content) {
+      if (block.type !== "tool_use" || this.activities.has(block.id)) continue;
+      const activity: ToolActivity = { id: block.id, name: block.name, input: block.input ?? {} };
+      this.activities.set(block.id, activity);
+      started.push(activity);
+    }
+    return started;
+  }
+
+  /**
+   * Record tool_result blocks; returns the tools that just finished
+   */
+  onUser(message: ClaudeCliUser): ToolActivity[] {
+    const content = message.message.content;
+    if (!Array.isArray(content)) return [];
+
+    const finished: ToolActivity[] = [];
+    for (const block of content) {
+      if (block.type !== "tool_result") continue;
+      const activity = this.activities.get(block.tool_use_id);
+      if (!activity || activity.result !== undefined) continue;
+
+      const text = resultText(block.content);
+      activity.result = text.slice(0, RESULT_MAX_CHARS);
+      activity.is_error = block.is_error === true;
+      if (text.length > RESULT_MAX_CHARS) activity.truncated = true;
+      finished.push(activity);
+    }
+    return finished;
+  }
+
+  /**
+   * Position of a tool in the run, used as its tool_calls index
+   */
+  indexOf(activity: ToolActivity): number {
+    return Array.from(this.activities.keys()).indexOf(activity.id);
+  }
+
+  /**
+   * Every tool run so far, in order
+   */
+  summary(): ToolActivity[] {
+    return Array.from(this.activities.values());
+  }
+
+  get size(): number {
+    return this.activities.size;
+  }
+}
+
+/**
+ * Format a named SSE event for a tool that started or finished in the
+ * given choice
+ */
+export function formatToolActivityEvent(activity: ToolActivity, choiceIndex: number = 0): string {
+  const data = activity.result === undefined
+    ? { type: "tool_use", choice_index: choiceIndex, id: activity.id, name: activity.name, input: activity.input }
+    : {
+      type: "tool_result",
+      choice_index: choiceIndex,
+      id: activity.id,
+      name: activity.name,
+      result: activity.result,
+      is_error: activity.is_error,
+      ...(activity.truncated ? { truncated: true } : {}),
+    };
+  return `event: tool_activity\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Build a tool_calls delta entry for a tool that started (name and
+ * arguments) or finished (result)
+ */
+export function toToolCallDelta(activity: ToolActivity, index: number): OpenAIChatChunkToolCall {
+  if (activity.result === undefined) {
+    return {
+      index,
+      id: activity.id,
+      type: "function",
+      function: { name: activity.name, arguments: JSON.stringify(activity.input) },
+      executed: true,
+    };
+  }
+  return {
+    index,
+    id: activity.id,
+    executed: true,
+    result: {
+      content: activity.result,
+      is_error: activity.is_error === true,
+      ...(activity.truncated ? { truncated: true } : {}),
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ToolCallStreamParser, formatToolCalls, parseToolCalls } from "./tools.js";
+
+const WEATHER_CALL = '<tool_call>{"name": "get_weather", "arguments": {"city": "Paris"}}</tool_call>';
+
+describe("parseToolCalls", () => {
+  it("splits tool calls out of the content", () => {
+    const { content, toolCalls } = parseToolCalls(`Checking.\n${WEATHER_CALL}`);
+    assert.equal(content, "Checking.");
+    assert.equal(toolCalls.length, 1);
+    assert.match(toolCalls[0].id, /^call_[0-9a-f]{24}$/);
+    assert.deepEqual(toolCalls[0].function, { name: "get_weather", arguments: '{"city":"Paris"}' });
+  });
+
+  it("leaves malformed blocks in the content", () => {
+    const text = '<tool_call>{"arguments": {}}</tool_call>';
+    assert.deepEqual(parseToolCalls(text), { content: text, toolCalls: [] });
+  });
+
+  it("round-trips formatted calls", () => {
+    const { toolCalls } = parseToolCalls(WEATHER_CALL);
+    assert.deepEqual(parseToolCalls(formatToolCalls(toolCalls)).toolCalls.map((call) => call.function), [
+      { name: "get_weather", arguments: '{"city":"Paris"}' },
+    ]);
+  });
+});
+
+describe("ToolCallStreamParser", () => {
+  it("streams plain text, holding back only a possible tag start", () => {
+    const parser = new ToolCallStreamParser();
+    assert.equal(parser.push("a < b"), "a < b");
+    assert.equal(parser.push(" <tool"), " ");
+    assert.equal(parser.push("box>"), "<toolbox>");
+    assert.deepEqual(parser.finish(), { content: "", toolCalls: [] });
+  });
+
+  it("captures a tool call whose tag is split across deltas", () => {
+    const parser = new ToolCallStreamParser();
+    const emitted = ["Let me check.<tool_", "call>", WEATHER_CALL.slice("<tool_call>".length, 20), WEATHER_CALL.slice(20)]
+      .map((delta) => parser.push(delta))
+      .join("");
+    assert.equal(emitted, "Let me check.");
+
+    const { content, toolCalls } = parser.finish();
+    assert.equal(content, "");
+    assert.equal(toolCalls.length, 1);
+    assert.equal(toolCalls[0].function.name, "get_weather");
+  });
+
+  it("returns text after the tool calls and unparsed blocks from finish()", () => {
+    const parser = new ToolCallStreamParser();
+    assert.equal(parser.push(`${WEATHER_CALL} done`), "");
+    assert.equal(parser.finish().content, "\ndone");
+
+    const broken = new ToolCallStreamParser();
+    broken.push("<tool_call>not json");
+    assert.deepEqual(broken.finish(), { content: "\n<tool_call>not json", toolCalls: [] });
+  });
+
+  it("releases a trailing partial tag at the end of the stream", () => {
+    const parser = new ToolCallStreamParser();
+    assert.equal(parser.push("ends with <tool_"), "ends with ");
+    assert.deepEqual(parser.finish(), { content: "<tool_", toolCalls: [] });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * OpenAI function calling support
+ *
+ * Claude CLI has no way to register client-side functions, so the declared
+ * tools are described to the model in the system prompt and the model is
+ * asked to emit <tool_call> blocks. Those blocks are parsed back out of the
+ * response text and returned as OpenAI tool_calls.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import type {
+  OpenAITool,
+  OpenAIToolCall,
+  OpenAIToolChoice,
+} from "../types/openai.js";
+
+const TOOL_CALL_OPEN = "<tool_call>";
+const TOOL_CALL_CLOSE = "</tool_call>";
+
+/**
+ * Build the system prompt section describing client-declared functions.
+ * Returns undefined when no tools should be offered to the model.
+ */
+export function buildToolsPrompt(
+  tools: OpenAITool[] | undefined,
+  toolChoice: OpenAIToolChoice | undefined,
+  parallelToolCalls: boolean = true
+): string | undefined {
+  if (!tools || tools.length === 0 || toolChoice === "none") {
+    return undefined;
+  }
+
+  const definitions = tools
+    .filter((tool) => tool.type === "function" && tool.function?.name)
+    .map((tool) =>
+      JSON.stringify({
+        name: tool.function.name,
+        description: tool.function.description,
+        parameters: tool.function.parameters ?? { type: "object", properties: {} },
+      })
+    )
+    .join("\n");
+
+  const lines = [
+    "# Client functions",
+    "",
+    "The client application has declared the functions below. They are NOT your own tools:",
+    "you cannot run them yourself. To call one, output a block in exactly this format and",
+    "then stop. The client will run it and reply with a <tool_result> block:",
+    "",
+    `${TOOL_CALL_OPEN}{"name": "<function name>", "arguments": {<arguments matching the JSON schema>}}${TOOL_CALL_CLOSE}`,
+    "",
+    "Available functions (one JSON definition per line):",
+    definitions,
+    "",
+  ];
+
+  if (toolChoice === "required") {
+    lines.push("You MUST call at least one of these functions in this response.");
+  } else if (typeof toolChoice === "object" && toolChoice.function?.name) {
+    lines.push(`You MUST call the function "${toolChoice.function.name}" in this response.`);
+  } else {
+    lines.push("Only call a function when it is needed to answer; otherwise reply normally.");
+  }
+
+  lines.push(
+    parallelToolCalls
+      ? "You may emit several tool_call blocks if the calls are independent."
+      : "Emit at most one tool_call block per response."
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Generate an OpenAI-style tool call ID
+ */
+function createToolCallId(): string {
+  return `call_${uuidv4().replace(/-/g, "").slice(0, 24)}`;
+}
+
+/**
+ * Parse a single <tool_call> body into an OpenAI tool call.
+ * Returns null if the body is not a JSON object with a function name.
+ */
+function parseToolCallBody(body: string): OpenAIToolCall | null {
+  try {
+    const parsed = JSON.parse(body.trim()) as { name?: unknown; arguments?: unknown };
+    if (typeof parsed.name !== "string" || !parsed.name) {
+      return null;
+    }
+    const args = parsed.arguments ?? {};
+    return {
+      id: createToolCallId(),
+      type: "function",
+      function: {
+        name: parsed.name,
+        arguments: typeof args === "string" ? args : JSON.stringify(args),
+      },
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split model output into plain content and tool calls.
+ * Malformed tool_call blocks are left in the content untouched.
+ */
+export function parseToolCalls(text: string): {
+  content: string;
+  toolCalls: OpenAIToolCall[];
+} {
+  const toolCalls: OpenAIToolCall[] = [];
+  const content = text.replace(
+    /<tool_call>([\s\S]*?)<\/tool_call>/g,
+    (match, body: string) => {
+      const call = parseToolCallBody(body);
+      if (!call) return match;
+      toolCalls.push(call);
+      return "";
+    }
+  );
+
+  return { content: content.trim(), toolCalls };
+}
+
+/**
+ * Serialize assistant tool calls back into the <tool_call> text format,
+ * so replayed history matches what the model was told to produce.
+ */
+export function formatToolCalls(toolCalls: OpenAIToolCall[]): string {
+  return toolCalls
+    .map((call) => {
+      let args: unknown = call.function.arguments;
+      try {
+        args = JSON.parse(call.function.arguments);
+      } catch {
+        // Keep the raw string if the client sent non-JSON arguments
+      }
+      return `${TOOL_CALL_OPEN}${JSON.stringify({ name: call.function.name, arguments: args })}${TOOL_CALL_CLOSE}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Incremental parser for streaming responses.
+ *
+ * Text before the first <tool_call> is released as soon as it cannot be
+ * the start of a tag; everything from the first tag onward is held back
+ * and parsed when the stream finishes.
+ */
+export class ToolCallStreamParser {
+  private pending: string = "";
+  private captured: string = "";
+  private capturing: boolean = false;
+
+  /**
+   * Feed a text delta. Returns the text that is safe to emit as content.
+   */
+  push(text: string): string {
+    if (this.capturing) {
+      this.captured += text;
+      return "";
+    }
+
+    this.pending += text;
+    const tagIndex = this.pending.indexOf(TOOL_CALL_OPEN);
+    if (tagIndex !== -1) {
+      const emit = this.pending.slice(0, tagIndex);
+      this.captured = this.pending.slice(tagIndex);
+      this.pending = "";
+      this.capturing = true;
+      return emit;
+    }
+
+    // Hold back a trailing partial tag such as "<tool_"
+    let keep = 0;
+    for (let len = Math.min(TOOL_CALL_OPEN.length - 1, this.pending.length); len > 0; len--) {
+      if (TOOL_CALL_OPEN.startsWith(this.pending.slice(-len))) {
+        keep = len;
+        break;
+      }
+    }
+    const emit = this.pending.slice(0, this.pending.length - keep);
+    this.pending = this.pending.slice(this.pending.length - keep);
+    return emit;
+  }
+
+  /**
+   * Flush the parser at end of stream
+   */
+  finish(): { content: string; toolCalls: OpenAIToolCall[] } {
+    const { content, toolCalls } = parseToolCalls(this.captured);
+    const remaining = this.pending + (this.capturing && content ? `\n${content}` : "");
+    this.pending = "";
+    this.captured = "";
+    return { content: remaining, toolCalls };
+  }
+}
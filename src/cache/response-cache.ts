@@ -0,0 +1,301 @@
+/**
+ * Response Cache
+ *
+ * Opt-in cache of CLI runs for repeated identical requests (CI and eval
+ * jobs). Entries are keyed on the API key, the normalized CLI input
+ * (model, system prompt, prompt, attachments hash, thinking budget) and
+ * the workspace the run would use, and hold the CLI's output messages. A hit replays
+ * them through a ReplaySubprocess, so routes stream and post-process a
+ * cached run (stop sequences, max_tokens, tool calls, SSE chunks) exactly
+ * like a live one, without spawning the CLI or using quota.
+ *
+ * Only runs that finish with a successful result are stored. Entries
+ * evicted from the LRU are removed from disk too, and expired disk entries
+ * are swept at startup and hourly.
+ *
+ * Configuration (environment):
+ * - RESPONSE_CACHE=true enables the cache
+ * - RESPONSE_CACHE_TTL_MS: entry lifetime (default 1 hour)
+ * - RESPONSE_CACHE_MAX_ENTRIES: in-memory LRU size (default 256)
+ * - RESPONSE_CACHE_DIR: also keep entries on disk, shared across restarts
+ */
+
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { ClaudeSubprocess, type SubprocessOptions, type SubprocessStartOptions } from "../subprocess/manager.js";
+import type { CliInput } from "../adapter/openai-to-cli.js";
+import { classifyCliResult } from "../adapter/cli-errors.js";
+import type { ClaudeCliMessage, ClaudeCliStreamEvent } from "../types/claude-cli.js";
+import { isAssistantMessage, isContentDelta, isResultMessage, isUserMessage } from "../types/claude-cli.js";
+import { logger } from "../logging/logger.js";
+
+const log = logger.child({ component: "ResponseCache" });
+
+export interface CachedRun {
+  key: string;
+  createdAt: number;
+  expiresAt: number;
+  /** CLI output messages in order, ending with the result */
+  messages: ClaudeCliMessage[];
+}
+
+export const CACHE_HEADER = "X-Cache";
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || "", 10);
+  return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+const CACHE_ENABLED = process.env.RESPONSE_CACHE === "true";
+const CACHE_TTL_MS = parsePositive(process.env.RESPONSE_CACHE_TTL_MS, 60 * 60 * 1000);
+const CACHE_MAX_ENTRIES = parsePositive(process.env.RESPONSE_CACHE_MAX_ENTRIES, 256);
+const CACHE_DIR = process.env.RESPONSE_CACHE_DIR;
+
+/**
+ * Cache key of a CLI run for an API key label (undefined when auth is
+ * disabled); keys never share entries. Attachments are hashed with the
+ * rest of the stream-json input rather than stored in the key.
+ */
+export function responseCacheKey(
+  cliInput: CliInput,
+  options: SubprocessOptions,
+  keyLabel: string | undefined
+): string {
+  const normalized = {
+    keyLabel: keyLabel ?? null,
+    model: cliInput.model,
+    systemPrompt: cliInput.systemPrompt || "",
+    prompt: cliInput.prompt,
+    input: cliInput.hasAttachments
+      ? createHash("sha256").update(cliInput.stdinMessages.join("\n")).digest("hex")
+      : null,
+    hasClientTools: cliInput.hasClientTools,
+    thinkingBudget: cliInput.thinkingBudget || 0,
+    tools: options.tools ?? null,
+    cwd: options.cwd ?? null,
+    permissionMode: options.permissionMode ?? null,
+    loadClaudeMd: options.loadClaudeMd ?? null,
+  };
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+/**
+ * A subprocess stand-in that replays a cached run's messages with the
+ * events a live ClaudeSubprocess would emit
+ */
+export class ReplaySubprocess extends ClaudeSubprocess {
+  private stopped: boolean = false;
+
+  constructor(private readonly messages: ClaudeCliMessage[]) {
+    super();
+  }
+
+  async start(_prompt: string, _options: SubprocessStartOptions): Promise<void> {
+    // Emit asynchronously, like CLI output, so listeners see every event
+    setImmediate(() => this.replay(0));
+  }
+
+  kill(): void {
+    this.stopped = true;
+  }
+
+  isRunning(): boolean {
+    return false;
+  }
+
+  private replay(index: number): void {
+    if (this.stopped || index >= this.messages.length) {
+      this.emit("close", 0);
+      return;
+    }
+
+    const message = this.messages[index];
+    this.emit("message", message);
+    if (isContentDelta(message)) {
+      this.emit("content_delta", message as ClaudeCliStreamEvent);
+    } else if (isAssistantMessage(message)) {
+      this.emit("assistant", message);
+    } else if (isUserMessage(message)) {
+      this.emit("user", message);
+    } else if (isResultMessage(message)) {
+      this.emit("result", message);
+    }
+    setImmediate(() => this.replay(index + 1));
+  }
+}
+
+/**
+ * Whether a disk entry has the shape of a cached run for this key
+ */
+function isCachedRun(value: unknown, key: string): value is CachedRun {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Partial<CachedRun>;
+  return entry.key === key &&
+    typeof entry.createdAt === "number" &&
+    typeof entry.expiresAt === "number" &&
+    Array.isArray(entry.messages) &&
+    entry.messages.length > 0 &&
+    isResultMessage(entry.messages[entry.messages.length - 1]);
+}
+
+class ResponseCache {
+  // Map order is LRU order: oldest first
+  private entries: Map<string, CachedRun> = new Map();
+  private stats = { hits: 0, misses: 0, stores: 0 };
+
+  get enabled(): boolean {
+    return CACHE_ENABLED;
+  }
+
+  /**
+   * Get a live entry from memory, or from disk when configured
+   */
+  async get(key: string): Promise<CachedRun | undefined> {
+    let entry = this.entries.get(key) || await this.readFromDisk(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      entry = undefined;
+    }
+
+    if (entry) {
+      this.touch(key, entry);
+      this.stats.hits++;
+    } else {
+      this.stats.misses++;
+    }
+    return entry;
+  }
+
+  /**
+   * Store the run of a subprocess once it ends with a successful result
+   */
+  record(key: string, subprocess: ClaudeSubprocess): void {
+    const messages: ClaudeCliMessage[] = [];
+    let complete = false;
+
+    subprocess.on("message", (message: ClaudeCliMessage) => {
+      messages.push(message);
+      if (isResultMessage(message) && !classifyCliResult(message)) {
+        complete = true;
+      }
+    });
+    subprocess.once("close", (code: number | null) => {
+      if (complete && code === 0) {
+        this.set(key, messages);
+      }
+    });
+  }
+
+  getStats() {
+    return { ...this.stats, entries: this.entries.size };
+  }
+
+  /**
+   * Remove expired entries from memory and disk, and unreadable disk entries
+   */
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (entry.expiresAt <= now) {
+        this.delete(key);
+        removed++;
+      }
+    }
+
+    if (CACHE_DIR) {
+      let files: string[];
+      try {
+        files = await fs.readdir(CACHE_DIR);
+      } catch {
+        files = [];
+      }
+      for (const file of files) {
+        if (!file.endsWith(".json")) continue;
+        const key = file.slice(0, -".json".length);
+        if (this.entries.has(key)) continue;
+        // readFromDisk removes malformed entries itself
+        const entry = await this.readFromDisk(key);
+        if (!entry || entry.expiresAt <= now) {
+          this.delete(key);
+          removed++;
+        }
+      }
+    }
+
+    if (removed > 0) {
+      log.info("Cleaned up expired entries", { removed });
+    }
+    return removed;
+  }
+
+  private set(key: string, messages: ClaudeCliMessage[]): void {
+    const now = Date.now();
+    const entry: CachedRun = { key, createdAt: now, expiresAt: now + CACHE_TTL_MS, messages };
+    this.touch(key, entry);
+    this.stats.stores++;
+
+    if (CACHE_DIR) {
+      // Written aside and renamed, so readers never see a partial entry
+      const tmpPath = `${this.diskPath(key)}.${process.pid}.tmp`;
+      fs.mkdir(CACHE_DIR, { recursive: true })
+        .then(() => fs.writeFile(tmpPath, JSON.stringify(entry)))
+        .then(() => fs.rename(tmpPath, this.diskPath(key)))
+        .catch((err) => log.error("Write error", { error: err }));
+    }
+  }
+
+  /**
+   * Make an entry the most recently used, evicting the oldest past the limit
+   * (from disk too)
+   */
+  private touch(key: string, entry: CachedRun): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > CACHE_MAX_ENTRIES) {
+      this.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  private delete(key: string): void {
+    this.entries.delete(key);
+    if (CACHE_DIR) {
+      fs.rm(this.diskPath(key), { force: true }).catch(() => {});
+    }
+  }
+
+  private async readFromDisk(key: string): Promise<CachedRun | undefined> {
+    if (!CACHE_DIR) return undefined;
+    let entry: unknown;
+    try {
+      entry = JSON.parse(await fs.readFile(this.diskPath(key), "utf-8"));
+    } catch (err) {
+      // Missing, or unreadable (partly written or corrupt)
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") this.delete(key);
+      return undefined;
+    }
+    if (!isCachedRun(entry, key)) {
+      log.warn("Dropping malformed entry", { key });
+      this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private diskPath(key: string): string {
+    return path.join(CACHE_DIR!, `${key}.json`);
+  }
+}
+
+// Singleton instance
+export const responseCache = new ResponseCache();
+
+// Sweep expired entries at startup and every hour
+if (responseCache.enabled) {
+  responseCache.cleanup().catch((err) => log.error("Cleanup error", { error: err }));
+  setInterval(() => {
+    responseCache.cleanup().catch((err) => log.error("Cleanup error", { error: err }));
+  }, 60 * 60 * 1000).unref();
+}
@@ -0,0 +1,197 @@
+/**
+ * Embedding Providers
+ *
+ * Claude has no embeddings model, so /v1/embeddings is served by a
+ * pluggable local provider, letting one base URL serve a whole RAG app:
+ *
+ * - "hashing" (default): a bundled feature-hashing vectorizer over words,
+ *   word bigrams and character trigrams. No model download, deterministic,
+ *   good enough for keyword-style similarity.
+ * - "command": runs EMBEDDINGS_COMMAND (e.g. a sentence-transformers
+ *   script), writing {"input": [...], "dimensions": n|null} to its stdin and
+ *   reading {"embeddings": [[...], ...]} (or a bare array) from stdout.
+ *
+ * Configuration (environment):
+ * - EMBEDDINGS_PROVIDER: "hashing" or "command"
+ * - EMBEDDINGS_DIMENSIONS: hashing vector size (default 512)
+ * - EMBEDDINGS_COMMAND: program and arguments for the command provider (no shell)
+ * - EMBEDDINGS_TIMEOUT_MS: command provider timeout (default 30000)
+ */
+
+import { spawn } from "child_process";
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  /**
+   * Embed each input. When dimensions is given the provider should return
+   * vectors of that size; routes shorten longer ones.
+   */
+  embed(inputs: string[], dimensions?: number): Promise<number[][]>;
+}
+
+/**
+ * Raised when the embedding backend fails; routes answer 502
+ */
+export class EmbeddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmbeddingError";
+  }
+}
+
+function parseIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string, seed: number = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Feature weights: whole words matter most, subwords catch inflections and typos
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * Stateless hashing vectorizer ("hashing trick").
+ * Each feature is hashed to a dimension and a sign; counts are
+ * log-scaled and the vector is L2-normalized.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "hashing";
+
+  constructor(private readonly defaultDimensions: number) {}
+
+  async embed(inputs: string[], dimensions?: number): Promise<number[][]> {
+    return inputs.map((input) => this.vectorize(input, dimensions || this.defaultDimensions));
+  }
+
+  private vectorize(text: string, dimensions: number): number[] {
+    const words = text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      features.set(feature, (features.get(feature) || 0) + weight);
+    };
+
+    words.forEach((word, i) => {
+      add(`w:${word}`, WORD_WEIGHT);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, weight] of features) {
+      const index = fnv1a(feature) % dimensions;
+      // A second hash picks the sign so collisions tend to cancel out
+      const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+      vector[index] += sign * (1 + Math.log(1 + weight));
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * Runs an external embedding program once per request
+ */
+export class CommandEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "command";
+
+  constructor(
+    private readonly argv: string[],
+    private readonly timeoutMs: number
+  ) {}
+
+  embed(inputs: string[], dimensions?: number): Promise<number[][]> {
+    return new Promise((resolve, reject) => {
+      const [command, ...args] = this.argv;
+      const child = spawn(command, args, { stdio: ["pipe", "pipe", "pipe"] });
+      let stdout = "";
+      let stderr = "";
+
+      const timer = setTimeout(() => {
+        child.kill("SIGTERM");
+        reject(new EmbeddingError(`Embedding command timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      child.stdout.on("data", (chunk: Buffer) => (stdout += chunk.toString()));
+      child.stderr.on("data", (chunk: Buffer) => (stderr += chunk.toString()));
+      // A command that exits without reading stdin is reported by "close"
+      child.stdin.on("error", () => {});
+      child.on("error", (err) => {
+        clearTimeout(timer);
+        reject(new EmbeddingError(`Embedding command failed to start: ${err.message}`));
+      });
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          const detail = stderr.trim().slice(0, 200);
+          reject(new EmbeddingError(`Embedding command exited with code ${code}${detail ? `: ${detail}` : ""}`));
+          return;
+        }
+        try {
+          resolve(parseCommandOutput(stdout, inputs.length));
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      child.stdin.end(JSON.stringify({ input: inputs, dimensions: dimensions ?? null }));
+    });
+  }
+}
+
+function parseCommandOutput(stdout: string, expected: number): number[][] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stdout);
+  } catch {
+    throw new EmbeddingError("Embedding command did not print JSON");
+  }
+
+  const embeddings = Array.isArray(parsed) ? parsed : (parsed as { embeddings?: unknown })?.embeddings;
+  const valid = Array.isArray(embeddings) &&
+    embeddings.length === expected &&
+    embeddings.every((vector) => Array.isArray(vector) && vector.every((x) => typeof x === "number"));
+  if (!valid) {
+    throw new EmbeddingError(`Embedding command must print ${expected} numeric vectors`);
+  }
+  return embeddings as number[][];
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned as is)
+ */
+export function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm > 0 ? vector.map((x) => x / norm) : vector;
+}
+
+function createProvider(): EmbeddingProvider {
+  const name = process.env.EMBEDDINGS_PROVIDER || "hashing";
+  if (name === "command") {
+    const argv = (process.env.EMBEDDINGS_COMMAND || "").trim().split(/\s+/).filter(Boolean);
+    if (argv.length === 0) {
+      throw new Error("EMBEDDINGS_PROVIDER=command requires EMBEDDINGS_COMMAND");
+    }
+    return new CommandEmbeddingProvider(argv, parseIntEnv("EMBEDDINGS_TIMEOUT_MS", 30000));
+  }
+  if (name !== "hashing") {
+    throw new Error(`Unknown EMBEDDINGS_PROVIDER '${name}' (expected "hashing" or "command")`);
+  }
+  return new HashingEmbeddingProvider(parseIntEnv("EMBEDDINGS_DIMENSIONS", 512));
+}
+
+// Singleton instance
+export const embeddingProvider = createProvider();
@@ -0,0 +1,234 @@
+/**
+ * File Store
+ *
+ * Local, content-addressed storage behind /v1/files. Uploaded bytes are
+ * kept once per SHA-256 under FILE_STORE_DIR/blobs; file ids map to a blob
+ * plus metadata in FILE_STORE_DIR/index.json. Files expire after
+ * FILE_STORE_TTL_MS and blobs are removed once no file references them.
+ *
+ * Message parts reference stored files by file_id, so large images and
+ * documents are uploaded once instead of resent as base64 on every turn.
+ *
+ * Files belong to the API key that uploaded them: lookups take the key
+ * label as owner, and null (admin keys) matches every file.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import fsSync from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { logger } from "../logging/logger.js";
+
+const log = logger.child({ component: "FileStore" });
+
+export interface StoredFile {
+  id: string;
+  filename: string;
+  purpose: string;
+  bytes: number;
+  /** Media type sniffed or declared at upload */
+  mediaType: string;
+  sha256: string;
+  /** Label of the API key that uploaded it; undefined when auth is disabled */
+  owner?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const FILE_STORE_DIR = process.env.FILE_STORE_DIR || path.join(
+  process.env.HOME || "/tmp",
+  ".claude-code-cli-files"
+);
+const BLOB_DIR = path.join(FILE_STORE_DIR, "blobs");
+const INDEX_FILE = path.join(FILE_STORE_DIR, "index.json");
+
+// Files expire after 7 days unless configured otherwise
+const FILE_TTL_MS = (() => {
+  const value = parseInt(process.env.FILE_STORE_TTL_MS || "", 10);
+  return isNaN(value) || value <= 0 ? 7 * 24 * 60 * 60 * 1000 : value;
+})();
+
+class FileStore {
+  private files: Map<string, StoredFile> = new Map();
+  private loaded: boolean = false;
+  // Blob removals in progress, by SHA-256
+  private removing: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Load the file index from disk
+   */
+  async load(): Promise<void> {
+    if (this.loaded) return;
+
+    try {
+      const data = await fs.readFile(INDEX_FILE, "utf-8");
+      const parsed = JSON.parse(data) as Record<string, StoredFile>;
+      this.files = new Map(Object.entries(parsed));
+      log.info("Loaded files", { count: this.files.size });
+    } catch {
+      // Index doesn't exist or is invalid, start fresh
+      this.files = new Map();
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * Save the file index to disk
+   */
+  async save(): Promise<void> {
+    await fs.mkdir(FILE_STORE_DIR, { recursive: true });
+    await fs.writeFile(INDEX_FILE, JSON.stringify(Object.fromEntries(this.files), null, 2));
+  }
+
+  /**
+   * Store uploaded bytes and create a file record
+   */
+  async create(
+    content: Buffer,
+    filename: string,
+    purpose: string,
+    mediaType: string,
+    owner?: string
+  ): Promise<StoredFile> {
+    const sha256 = createHash("sha256").update(content).digest("hex");
+    const blobPath = path.join(BLOB_DIR, sha256);
+    const now = Date.now();
+    const file: StoredFile = {
+      id: `file-${randomBytes(12).toString("hex")}`,
+      filename,
+      purpose,
+      bytes: content.length,
+      mediaType,
+      sha256,
+      owner,
+      createdAt: now,
+      expiresAt: now + FILE_TTL_MS,
+    };
+
+    // Registered before the blob is written, so deleting another file with
+    // the same content meanwhile keeps the blob
+    this.files.set(file.id, file);
+    try {
+      // A removal started before registration must land before the write
+      await this.removing.get(sha256);
+      await fs.mkdir(BLOB_DIR, { recursive: true });
+      // Content-addressed: identical uploads share one blob
+      await fs.writeFile(blobPath, content, { flag: "wx" }).catch((err: NodeJS.ErrnoException) => {
+        if (err.code !== "EEXIST") throw err;
+      });
+    } catch (err) {
+      this.files.delete(file.id);
+      throw err;
+    }
+
+    this.save().catch((err) => log.error("Save error", { error: err }));
+    return file;
+  }
+
+  /**
+   * Get a file record if it exists, has not expired and belongs to the owner
+   */
+  get(id: string, owner: string | null = null): StoredFile | undefined {
+    const file = this.files.get(id);
+    if (!file) return undefined;
+    if (file.expiresAt <= Date.now()) {
+      this.delete(id);
+      return undefined;
+    }
+    return owner === null || file.owner === owner ? file : undefined;
+  }
+
+  /**
+   * List the owner's live files, newest first
+   */
+  list(purpose?: string, owner: string | null = null): StoredFile[] {
+    const now = Date.now();
+    return Array.from(this.files.values())
+      .filter((file) => file.expiresAt > now && (!purpose || file.purpose === purpose))
+      .filter((file) => owner === null || file.owner === owner)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Read a file's bytes synchronously (used during request conversion).
+   * Returns undefined if the file or its blob is gone.
+   */
+  readContent(id: string, owner: string | null = null): Buffer | undefined {
+    const file = this.get(id, owner);
+    if (!file) return undefined;
+    try {
+      return fsSync.readFileSync(path.join(BLOB_DIR, file.sha256));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Delete a file record, and its blob if no other file uses it
+   */
+  delete(id: string): boolean {
+    const file = this.files.get(id);
+    if (!file) return false;
+
+    this.files.delete(id);
+    this.removeBlobIfUnused(file.sha256);
+    this.save().catch((err) => log.error("Save error", { error: err }));
+    return true;
+  }
+
+  private removeBlobIfUnused(sha256: string): void {
+    for (const other of this.files.values()) {
+      if (other.sha256 === sha256) return;
+    }
+    const removal: Promise<void> = fs.unlink(path.join(BLOB_DIR, sha256))
+      .catch(() => {
+        // Already gone
+      })
+      .finally(() => {
+        if (this.removing.get(sha256) === removal) this.removing.delete(sha256);
+      });
+    this.removing.set(sha256, removal);
+  }
+
+  /**
+   * Clean up expired files
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const file of Array.from(this.files.values())) {
+      if (file.expiresAt <= now) {
+        this.files.delete(file.id);
+        this.removeBlobIfUnused(file.sha256);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      log.info("Cleaned up expired files", { removed });
+      this.save().catch((err) => log.error("Save error", { error: err }));
+    }
+    return removed;
+  }
+
+  /**
+   * Get stored file count
+   */
+  get size(): number {
+    return this.files.size;
+  }
+}
+
+// Singleton instance
+export const fileStore = new FileStore();
+
+// Initialize on module load
+fileStore.load().catch((err) =>
+  log.error("Load error", { error: err })
+);
+
+// Periodic cleanup every hour
+setInterval(() => {
+  fileStore.cleanup();
+}, 60 * 60 * 1000).unref();
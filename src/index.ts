@@ -7,48 +7,30 @@
 
 import { startServer, stopServer, getServer } from "./server/index.js";
 import { verifyClaude, verifyAuth } from "./subprocess/manager.js";
+import { supportsReasoning } from "./adapter/reasoning.js";
+import { modelRegistry, type ModelDefinition } from "./models/registry.js";
+import { logger } from "./logging/logger.js";
 
 // Provider constants
 const PROVIDER_ID = "claude-code-cli";
 const PROVIDER_LABEL = "Claude Code CLI";
 const DEFAULT_PORT = 3456;
-const DEFAULT_MODEL = "claude-code-cli/claude-sonnet-4";
-
-// Available models
-const AVAILABLE_MODELS = [
-  {
-    id: "claude-opus-4",
-    name: "Claude Opus 4.5",
-    alias: "opus",
-    reasoning: true,
-  },
-  {
-    id: "claude-sonnet-4",
-    name: "Claude Sonnet 4",
-    alias: "sonnet",
-    reasoning: false,
-  },
-  {
-    id: "claude-haiku-4",
-    name: "Claude Haiku 4",
-    alias: "haiku",
-    reasoning: false,
-  },
-];
+const DEFAULT_MODEL = `${PROVIDER_ID}/${modelRegistry.defaultModel.id}`;
 
 /**
  * Build model definitions for Clawdbot config
  */
-function buildModelDefinition(model: (typeof AVAILABLE_MODELS)[number]) {
+function buildModelDefinition(model: ModelDefinition) {
   return {
     id: model.id,
     name: model.name,
     api: "openai-completions",
-    reasoning: model.reasoning,
-    input: ["text"],
+    // Reasoning models accept reasoning_effort and return reasoning_content
+    reasoning: supportsReasoning(model),
+    input: model.capabilities.vision ? ["text", "image"] : ["text"],
     cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
-    contextWindow: 200000,
-    maxTokens: 8192,
+    contextWindow: model.contextWindow,
+    maxTokens: model.maxOutputTokens,
   };
 }
 
@@ -158,14 +140,14 @@ const claudeCodeCliPlugin = {
                         apiKey: "local",
                         api: "openai-completions",
                         authHeader: false,
-                        models: AVAILABLE_MODELS.map(buildModelDefinition),
+                        models: modelRegistry.list().map(buildModelDefinition),
                       },
                     },
                   },
                   agents: {
                     defaults: {
                       models: Object.fromEntries(
-                        AVAILABLE_MODELS.map((m) => [
+                        modelRegistry.list().map((m) => [
                           `${PROVIDER_ID}/${m.id}`,
                           {},
                         ])
@@ -194,7 +176,7 @@ const claudeCodeCliPlugin = {
     api.on("plugin:unload", async () => {
       const server = getServer();
       if (server) {
-        console.log("[ClaudeCodeCLI] Stopping server on plugin unload");
+        logger.info("Stopping server on plugin unload");
         await stopServer();
       }
     });
@@ -231,7 +213,7 @@ const claudeCodeCliPlugin = {
         });
     });
 
-    console.log("[ClaudeCodeCLI] Plugin registered");
+    logger.info("Claude Code CLI plugin registered");
   },
 };
 
@@ -0,0 +1,102 @@
+/**
+ * Structured Logger
+ *
+ * Leveled logging to stderr, one JSON object per line by default.
+ * Child loggers carry context fields (request id, session key, subprocess
+ * PID) so every line of a request can be correlated.
+ *
+ * Configuration (environment):
+ * - LOG_LEVEL: debug, info (default), warn or error; DEBUG or
+ *   DEBUG_SUBPROCESS=true lower the default to debug
+ * - LOG_FORMAT: json (default) or text
+ * - LOG_REDACT_CONTENT: "false" logs previews of message content;
+ *   by default only lengths are logged
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Characters of content kept when redaction is off
+const PREVIEW_CHARS = 100;
+
+function parseLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  if (level && level in LEVELS) return level as LogLevel;
+  return process.env.DEBUG || process.env.DEBUG_SUBPROCESS === "true" ? "debug" : "info";
+}
+
+const MIN_LEVEL = LEVELS[parseLevel()];
+const TEXT_FORMAT = process.env.LOG_FORMAT === "text";
+const REDACT_CONTENT = process.env.LOG_REDACT_CONTENT !== "false";
+
+/**
+ * Make a field value JSON-friendly (errors become their message)
+ */
+function toLoggable(value: unknown): unknown {
+  return value instanceof Error ? value.message : value;
+}
+
+function formatText(time: string, level: LogLevel, msg: string, fields: LogFields): string {
+  const parts = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`);
+  return [time, level.toUpperCase(), msg, ...parts].join(" ");
+}
+
+export class Logger {
+  constructor(private readonly context: LogFields = {}) {}
+
+  /**
+   * Logger that adds the given fields to every line
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.context, ...fields });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= MIN_LEVEL;
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write("debug", msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write("info", msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write("warn", msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write("error", msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) return;
+    const merged: LogFields = {};
+    for (const [key, value] of Object.entries({ ...this.context, ...fields })) {
+      merged[key] = toLoggable(value);
+    }
+    const time = new Date().toISOString();
+    const line = TEXT_FORMAT
+      ? formatText(time, level, msg, merged)
+      : JSON.stringify({ time, level, msg, ...merged });
+    process.stderr.write(line + "\n");
+  }
+}
+
+/**
+ * User content for a log line: a short preview, or only its length
+ * while redaction is on
+ */
+export function previewContent(text: string): string {
+  if (REDACT_CONTENT) return `[redacted ${text.length} chars]`;
+  return text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}...` : text;
+}
+
+// Root logger
+export const logger = new Logger();
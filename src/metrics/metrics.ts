@@ -0,0 +1,197 @@
+/**
+ * Prometheus Metrics
+ *
+ * A small in-process metrics registry rendered in the Prometheus text
+ * exposition format by GET /metrics. Routes record HTTP requests;
+ * ClaudeSubprocess records CLI runs (time to first token, tokens, cost,
+ * timeouts, CLI errors such as usage_limit_reached) so alerts can fire
+ * before the Max subscription limit is hit.
+ */
+
+export type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+/**
+ * Serialize labels as {a="1",b="2"} (empty string for none)
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  const escaped = entries.map(([key, value]) =>
+    `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return `{${escaped.join(",")}}`;
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * Values keyed by their label set
+ */
+class LabeledValues<T> {
+  private values: Map<string, { labels: Labels; value: T }> = new Map();
+
+  get(labels: Labels, create: () => T): T {
+    const key = formatLabels(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, value: create() };
+      this.values.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  set(labels: Labels, value: T): void {
+    this.values.set(formatLabels(labels), { labels, value });
+  }
+
+  entries(): { labels: Labels; value: T }[] {
+    return Array.from(this.values.values());
+  }
+}
+
+export class Counter implements Metric {
+  private values = new LabeledValues<{ total: number }>();
+
+  constructor(readonly name: string, private readonly help: string) {}
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    if (!(value > 0)) return;
+    this.values.get(labels, () => ({ total: 0 })).total += value;
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, "counter"),
+      ...this.values.entries().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value.total}`),
+    ];
+  }
+}
+
+export class Gauge implements Metric {
+  private values = new LabeledValues<number>();
+
+  constructor(readonly name: string, private readonly help: string) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labels, value);
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    this.values.set(labels, this.values.get(labels, () => 0) + value);
+  }
+
+  dec(labels: Labels = {}, value: number = 1): void {
+    this.inc(labels, -value);
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, "gauge"),
+      ...this.values.entries().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private values = new LabeledValues<{ counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.values.get(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "histogram");
+    for (const { labels, value } of this.values.entries()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+// Seconds; CLI runs take from under a second to several minutes
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const FIRST_TOKEN_BUCKETS = [0.25, 0.5, 1, 2, 3, 5, 10, 20, 30, 60];
+
+class ProxyMetrics {
+  private metrics: Metric[] = [];
+  private collectors: (() => void)[] = [];
+
+  readonly requests = this.register(new Counter(
+    "claude_proxy_requests_total", "HTTP requests by route, model and status code"
+  ));
+  readonly requestDuration = this.register(new Histogram(
+    "claude_proxy_request_duration_seconds", "Total HTTP request latency by route and model", LATENCY_BUCKETS
+  ));
+  readonly clientDisconnects = this.register(new Counter(
+    "claude_proxy_client_disconnects_total", "Requests whose client disconnected before the response ended"
+  ));
+  readonly timeToFirstToken = this.register(new Histogram(
+    "claude_proxy_time_to_first_token_seconds", "Time from CLI input to the first streamed token, by CLI model", FIRST_TOKEN_BUCKETS
+  ));
+  readonly tokens = this.register(new Counter(
+    "claude_proxy_tokens_total", "Tokens reported by CLI results, by CLI model and type (input, output, cache_read, cache_creation)"
+  ));
+  readonly cost = this.register(new Counter(
+    "claude_proxy_cost_usd_total", "API-equivalent cost reported by CLI results (total_cost_usd), by CLI model"
+  ));
+  readonly cliErrors = this.register(new Counter(
+    "claude_proxy_cli_errors_total", "CLI error results by CLI model and code (usage_limit_reached, cli_auth_error, overloaded, cli_error)"
+  ));
+  readonly subprocesses = this.register(new Gauge(
+    "claude_proxy_subprocesses", "Live Claude CLI processes, including warm pool processes"
+  ));
+  readonly responseCache = this.register(new Counter(
+    "claude_proxy_response_cache_total", "Response cache lookups by result (hit, miss, bypass)"
+  ));
+  readonly subprocessTimeouts = this.register(new Counter(
+    "claude_proxy_subprocess_timeouts_total", "CLI runs killed for exceeding the request timeout, by CLI model"
+  ));
+
+  /**
+   * Add a metric to the output
+   */
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * Run a callback before each render, to refresh gauges from other modules' stats
+   */
+  addCollector(collect: () => void): void {
+    this.collectors.push(collect);
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format
+   */
+  render(): string {
+    for (const collect of this.collectors) collect();
+    return this.metrics.map((metric) => metric.render().join("\n")).join("\n") + "\n";
+  }
+}
+
+// Singleton instance
+export const metrics = new ProxyMetrics();
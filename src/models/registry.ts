@@ -0,0 +1,204 @@
+/**
+ * Model Registry
+ *
+ * The single list of models the proxy serves. It drives request routing
+ * (model name -> CLI --model argument), GET /v1/models and the Clawdbot
+ * provider model definitions. Unknown model names are rejected.
+ *
+ * Built-in models are used unless a registry is configured with
+ * MODEL_REGISTRY_FILE (path to JSON) or MODEL_REGISTRY (inline JSON):
+ *   {
+ *     "providerPrefixes": ["claude-code-cli", "claude-max"],
+ *     "defaultModel": "claude-sonnet-4-5",
+ *     "models": [
+ *       { "id": "claude-opus-4-6", "name": "Claude Opus 4.6",
+ *         "cliModel": "claude-opus-4-6", "aliases": ["opus"],
+ *         "contextWindow": 200000, "maxOutputTokens": 128000,
+ *         "capabilities": { "reasoning": true, "vision": true } }
+ *     ]
+ *   }
+ *
+ * Requests may name a model by id, alias or CLI model, optionally with a
+ * provider prefix ("claude-max/claude-opus-4-6") and a workspace suffix
+ * ("sonnet@code-qa").
+ */
+
+import fs from "fs";
+
+export interface ModelCapabilities {
+  /** Extended thinking (reasoning_effort / thinking) */
+  reasoning: boolean;
+  /** Image and PDF inputs */
+  vision: boolean;
+}
+
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  /** CLI --model argument: an alias ("opus") or a full model id ("claude-opus-4-6-20260205") */
+  cliModel: string;
+  aliases: string[];
+  contextWindow: number;
+  maxOutputTokens: number;
+  capabilities: ModelCapabilities;
+}
+
+interface ModelRegistryConfig {
+  providerPrefixes?: string[];
+  defaultModel?: string;
+  models: Array<Partial<Omit<ModelDefinition, "capabilities">> & { capabilities?: Partial<ModelCapabilities> }>;
+}
+
+/**
+ * Raised when a request names a model that is not in the registry
+ */
+export class UnknownModelError extends Error {
+  constructor(public readonly model: string) {
+    super(`The model '${model}' does not exist.`);
+    this.name = "UnknownModelError";
+  }
+}
+
+// Prefixes clients put before model names ("claude-max/claude-opus-4-6")
+const DEFAULT_PROVIDER_PREFIXES = ["claude-code-cli", "claude-max"];
+
+const BUILTIN_REGISTRY: ModelRegistryConfig = {
+  defaultModel: "claude-sonnet-4",
+  models: [
+    {
+      id: "claude-opus-4-6",
+      name: "Claude Opus 4.6",
+      cliModel: "opus",
+      aliases: ["opus", "opus-max"],
+      maxOutputTokens: 128000,
+      capabilities: { reasoning: true },
+    },
+    { id: "claude-opus-4", name: "Claude Opus 4", cliModel: "opus", maxOutputTokens: 32000, capabilities: { reasoning: true } },
+    { id: "claude-sonnet-4-5", name: "Claude Sonnet 4.5", cliModel: "sonnet", aliases: ["sonnet", "sonnet-max"], maxOutputTokens: 64000 },
+    { id: "claude-sonnet-4", name: "Claude Sonnet 4", cliModel: "sonnet", maxOutputTokens: 64000 },
+    { id: "claude-haiku-4", name: "Claude Haiku 4", cliModel: "haiku", aliases: ["haiku"], maxOutputTokens: 64000 },
+  ],
+};
+
+const DEFAULT_CONTEXT_WINDOW = 200000;
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+
+function loadConfig(): ModelRegistryConfig {
+  if (process.env.MODEL_REGISTRY_FILE) {
+    return JSON.parse(fs.readFileSync(process.env.MODEL_REGISTRY_FILE, "utf-8")) as ModelRegistryConfig;
+  }
+  if (process.env.MODEL_REGISTRY) {
+    return JSON.parse(process.env.MODEL_REGISTRY) as ModelRegistryConfig;
+  }
+  return BUILTIN_REGISTRY;
+}
+
+class ModelRegistry {
+  private models: ModelDefinition[] = [];
+  // Every accepted name (id, alias, CLI model) -> model
+  private names: Map<string, ModelDefinition> = new Map();
+  private prefixes: string[] = [];
+  private defaultId = "";
+
+  constructor(config: ModelRegistryConfig) {
+    if (!Array.isArray(config.models) || config.models.length === 0) {
+      throw new Error("Model registry has no models");
+    }
+
+    for (const entry of config.models) {
+      if (!entry.id || !entry.cliModel) {
+        throw new Error(`Model registry entry ${JSON.stringify(entry)} needs an id and a cliModel`);
+      }
+      const model: ModelDefinition = {
+        id: entry.id,
+        name: entry.name || entry.id,
+        cliModel: entry.cliModel,
+        aliases: entry.aliases || [],
+        contextWindow: entry.contextWindow || DEFAULT_CONTEXT_WINDOW,
+        maxOutputTokens: entry.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+        capabilities: {
+          reasoning: entry.capabilities?.reasoning ?? false,
+          vision: entry.capabilities?.vision ?? true,
+        },
+      };
+      this.models.push(model);
+
+      for (const name of [model.id, ...model.aliases]) {
+        const existing = this.names.get(name);
+        if (existing && existing !== model) {
+          throw new Error(`Model name '${name}' is used by both '${existing.id}' and '${model.id}'`);
+        }
+        this.names.set(name, model);
+      }
+    }
+    // CLI models are accepted too, but ids and aliases take precedence
+    for (const model of this.models) {
+      if (!this.names.has(model.cliModel)) this.names.set(model.cliModel, model);
+    }
+
+    this.prefixes = config.providerPrefixes || DEFAULT_PROVIDER_PREFIXES;
+    const defaultModel = this.find(config.defaultModel || this.models[0].id);
+    if (!defaultModel) {
+      throw new Error(`Default model '${config.defaultModel}' is not in the model registry`);
+    }
+    this.defaultId = defaultModel.id;
+  }
+
+  /**
+   * All models, in registry order
+   */
+  list(): ModelDefinition[] {
+    return this.models;
+  }
+
+  get defaultModel(): ModelDefinition {
+    return this.find(this.defaultId)!;
+  }
+
+  /**
+   * Look up a requested model name, or undefined if unknown
+   */
+  find(name: string): ModelDefinition | undefined {
+    // Drop a workspace profile suffix ("sonnet@code-qa")
+    name = name.replace(/@[^@/]*$/, "");
+    const direct = this.names.get(name);
+    if (direct) return direct;
+
+    const slash = name.indexOf("/");
+    if (slash > 0 && this.prefixes.includes(name.slice(0, slash))) {
+      return this.names.get(name.slice(slash + 1));
+    }
+    return undefined;
+  }
+
+  /**
+   * Look up a requested model name; throws UnknownModelError if unknown
+   */
+  resolve(name: string): ModelDefinition {
+    const model = this.find(name);
+    if (!model) throw new UnknownModelError(name);
+    return model;
+  }
+
+  /**
+   * Map the model name the CLI reports ("claude-sonnet-4-5-20250929")
+   * to a registry id for responses. Unknown names are returned as is.
+   */
+  displayId(reported: string | undefined): string {
+    if (!reported) return this.defaultId;
+    const exact = this.find(reported);
+    if (exact) return exact.id;
+
+    // Longest id the dated name starts with
+    let best: ModelDefinition | undefined;
+    for (const model of this.models) {
+      if (reported.startsWith(model.id) && (!best || model.id.length > best.id.length)) {
+        best = model;
+      }
+    }
+    return best ? best.id : reported;
+  }
+}
+
+// Singleton instance
+export const modelRegistry = new ModelRegistry(loadConfig());
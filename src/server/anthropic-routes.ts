@@ -0,0 +1,349 @@
+/**
+ * Anthropic Messages API Route Handler
+ *
+ * Implements POST /v1/messages for clients that speak the native
+ * Anthropic format. Streaming relays the CLI's raw stream events as
+ * Anthropic SSE events instead of converting them to OpenAI chunks.
+ */
+
+import type { Request, Response } from "express";
+import type { ClaudeSubprocess, SubprocessStartOptions } from "../subprocess/manager.js";
+import { anthropicOutputLimits, anthropicToCli, cliResultToAnthropic } from "../adapter/anthropic.js";
+import { OutputLimiter, estimateTokens } from "../adapter/parameters.js";
+import { classifyCliResult, cliErrorToAnthropicType } from "../adapter/cli-errors.js";
+import type { CliInput } from "../adapter/openai-to-cli.js";
+import type { AnthropicError, AnthropicMessagesRequest, AnthropicStopReason } from "../types/anthropic.js";
+import type { ClaudeCliMessage, ClaudeCliResult } from "../types/claude-cli.js";
+import { isStreamEvent } from "../types/claude-cli.js";
+import { QueueFullError, type ReleaseFn } from "../subprocess/queue.js";
+import {
+  acquireSubprocess,
+  buildSubprocessOptions,
+  getUsageContext,
+  lookupCachedRun,
+  waitForRun,
+} from "./routes.js";
+import { getRequestId, getRequestLog } from "./request-id.js";
+import { WorkspaceError, resolveWorkspace, type WorkspaceSelection } from "./workspaces.js";
+
+/**
+ * Send an Anthropic-format error response
+ */
+function sendError(res: Response, status: number, type: string, message: string): void {
+  const body: AnthropicError = { type: "error", error: { type, message } };
+  res.status(status).json(body);
+}
+
+/**
+ * Write a named SSE event
+ */
+function writeEvent(res: Response, event: string, data: object): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Handle POST /v1/messages
+ */
+export async function handleMessages(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const requestId = getRequestId(res);
+  const body = req.body as AnthropicMessagesRequest;
+
+  if (!body.messages || !Array.isArray(body.messages) || body.messages.length === 0) {
+    sendError(res, 400, "invalid_request_error", "messages is required and must be a non-empty array");
+    return;
+  }
+
+  let workspace: WorkspaceSelection | undefined;
+  let cliInput: CliInput;
+  try {
+    workspace = resolveWorkspace(req, res);
+    cliInput = await anthropicToCli(body);
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      sendError(res, error.status, error.status === 403 ? "permission_error" : "invalid_request_error", error.message);
+      return;
+    }
+    const message = error instanceof Error ? error.message : "Invalid request";
+    sendError(res, 400, "invalid_request_error", message);
+    return;
+  }
+
+  let release: ReleaseFn | undefined;
+  try {
+    const options = buildSubprocessOptions(cliInput, workspace, getRequestLog(res), getUsageContext(res));
+    const cache = await lookupCachedRun(res, cliInput, options);
+    release = await waitForRun(res, cliInput.model, cache);
+    const subprocess = acquireSubprocess(options, cache);
+    subprocess.once("close", release);
+    if (body.stream === true) {
+      await handleStreamingMessages(res, subprocess, cliInput, options, body, requestId);
+    } else {
+      await handleNonStreamingMessages(res, subprocess, cliInput, options, body, requestId);
+    }
+  } catch (error) {
+    release?.();
+    if (error instanceof QueueFullError) {
+      res.setHeader("Retry-After", String(error.retryAfter));
+      sendError(res, 429, "rate_limit_error", error.message);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    getRequestLog(res).error("Messages request failed", { error: message });
+    if (!res.headersSent) {
+      sendError(res, 500, "api_error", message);
+    }
+  }
+}
+
+/**
+ * Relay CLI stream events as Anthropic SSE.
+ *
+ * The CLI may run several internal turns (e.g. around built-in tool use),
+ * each with its own message_start/message_stop. Clients get a single
+ * message: only the first message_start is relayed, text blocks are
+ * renumbered across turns, and message_delta/message_stop are sent once
+ * the final result arrives.
+ */
+async function handleStreamingMessages(
+  res: Response,
+  subprocess: ClaudeSubprocess,
+  cliInput: CliInput,
+  options: SubprocessStartOptions,
+  request: AnthropicMessagesRequest,
+  requestId: string
+): Promise<void> {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+  res.write(":ok\n\n");
+
+  return new Promise<void>((resolve, reject) => {
+    const limiter = new OutputLimiter(anthropicOutputLimits(request));
+    // CLI block index (current turn) -> relayed block index
+    const blockMap = new Map<number, number>();
+    let nextIndex = 0;
+    let started = false;
+    let isComplete = false;
+    let outputTokens = 0;
+    let relayedText = "";
+
+    const startMessage = (model: string, usage?: { input_tokens: number; output_tokens: number }) => {
+      if (started) return;
+      started = true;
+      writeEvent(res, "message_start", {
+        type: "message_start",
+        message: {
+          id: `msg_${requestId}`,
+          type: "message",
+          role: "assistant",
+          model,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: usage || { input_tokens: 0, output_tokens: 0 },
+        },
+      });
+    };
+
+    const closeBlock = (cliIndex: number) => {
+      const index = blockMap.get(cliIndex);
+      if (index === undefined) return;
+      const rest = limiter.flush();
+      relayedText += rest;
+      if (rest) {
+        writeEvent(res, "content_block_delta", {
+          type: "content_block_delta",
+          index,
+          delta: { type: "text_delta", text: rest },
+        });
+      }
+      writeEvent(res, "content_block_stop", { type: "content_block_stop", index });
+      blockMap.delete(cliIndex);
+    };
+
+    const finish = (stopReason: AnthropicStopReason, result?: ClaudeCliResult) => {
+      isComplete = true;
+      if (res.writableEnded) return;
+      startMessage(request.model);
+      for (const cliIndex of [...blockMap.keys()]) {
+        closeBlock(cliIndex);
+      }
+      writeEvent(res, "message_delta", {
+        type: "message_delta",
+        delta: { stop_reason: stopReason, stop_sequence: limiter.stopSequence },
+        // Output cut at max_tokens is reported at its estimated size
+        usage: {
+          output_tokens: stopReason === "max_tokens"
+            ? estimateTokens(relayedText)
+            : result?.usage?.output_tokens ?? outputTokens,
+        },
+      });
+      writeEvent(res, "message_stop", { type: "message_stop" });
+      res.end();
+    };
+
+    res.on("close", () => {
+      if (!isComplete) {
+        subprocess.kill();
+      }
+      resolve();
+    });
+
+    subprocess.on("message", (msg: ClaudeCliMessage) => {
+      if (!isStreamEvent(msg) || isComplete || res.writableEnded) return;
+      const event = msg.event;
+
+      switch (event.type) {
+        case "message_start":
+          startMessage(event.message?.model || request.model, event.message?.usage);
+          blockMap.clear();
+          break;
+
+        case "content_block_start":
+          // Only text is relayed; CLI-internal tool use is not the client's concern
+          if (event.content_block?.type !== "text" || event.index === undefined) break;
+          blockMap.set(event.index, nextIndex);
+          writeEvent(res, "content_block_start", {
+            type: "content_block_start",
+            index: nextIndex,
+            content_block: { type: "text", text: "" },
+          });
+          nextIndex++;
+          break;
+
+        case "content_block_delta": {
+          const index = event.index === undefined ? undefined : blockMap.get(event.index);
+          const rawText = event.delta?.text;
+          if (index === undefined || typeof rawText !== "string") break;
+          const text = limiter.push(rawText);
+          relayedText += text;
+          if (text) {
+            writeEvent(res, "content_block_delta", {
+              type: "content_block_delta",
+              index,
+              delta: { type: "text_delta", text },
+            });
+          }
+          if (limiter.stopped) {
+            finish(limiter.finishReason === "length" ? "max_tokens" : "stop_sequence");
+            subprocess.kill();
+          }
+          break;
+        }
+
+        case "content_block_stop":
+          if (event.index !== undefined) closeBlock(event.index);
+          break;
+
+        case "message_delta":
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+      }
+    });
+
+    subprocess.on("result", (result: ClaudeCliResult) => {
+      const cliError = classifyCliResult(result);
+      if (cliError) {
+        isComplete = true;
+        if (!res.writableEnded) {
+          writeEvent(res, "error", {
+            type: "error",
+            error: { type: cliErrorToAnthropicType(cliError), message: cliError.message },
+          });
+          res.end();
+        }
+      } else {
+        finish("end_turn", result);
+      }
+      resolve();
+    });
+
+    subprocess.on("error", (error: Error) => {
+      getRequestLog(res).error("Subprocess error", { pid: subprocess.pid, error });
+      if (!res.writableEnded) {
+        writeEvent(res, "error", { type: "error", error: { type: "api_error", message: error.message } });
+        res.end();
+      }
+      resolve();
+    });
+
+    subprocess.on("close", (code: number | null) => {
+      if (!res.writableEnded) {
+        if (code !== 0 && !isComplete) {
+          writeEvent(res, "error", {
+            type: "error",
+            error: { type: "api_error", message: `Process exited with code ${code}` },
+          });
+          res.end();
+        } else {
+          finish("end_turn");
+        }
+      }
+      resolve();
+    });
+
+    subprocess.start(cliInput.prompt, options).catch((err) => {
+      getRequestLog(res).error("Subprocess start error", { error: err });
+      reject(err);
+    });
+  });
+}
+
+/**
+ * Handle non-streaming /v1/messages response
+ */
+async function handleNonStreamingMessages(
+  res: Response,
+  subprocess: ClaudeSubprocess,
+  cliInput: CliInput,
+  options: SubprocessStartOptions,
+  request: AnthropicMessagesRequest,
+  requestId: string
+): Promise<void> {
+  return new Promise((resolve) => {
+    let finalResult: ClaudeCliResult | null = null;
+
+    subprocess.on("result", (result: ClaudeCliResult) => {
+      finalResult = result;
+    });
+
+    subprocess.on("error", (error: Error) => {
+      getRequestLog(res).error("Subprocess error", { pid: subprocess.pid, error });
+      if (!res.headersSent) {
+        sendError(res, 500, "api_error", error.message);
+      }
+      resolve();
+    });
+
+    subprocess.on("close", (code: number | null) => {
+      const cliError = finalResult ? classifyCliResult(finalResult) : null;
+      if (res.headersSent) {
+        // Already answered (subprocess error)
+      } else if (cliError) {
+        if (cliError.retryAfter) {
+          res.setHeader("Retry-After", String(cliError.retryAfter));
+        }
+        sendError(res, cliError.status, cliErrorToAnthropicType(cliError), cliError.message);
+      } else if (finalResult) {
+        res.json(cliResultToAnthropic(finalResult, requestId, request));
+      } else {
+        sendError(res, 500, "api_error", `Claude CLI exited with code ${code} without response`);
+      }
+      resolve();
+    });
+
+    subprocess
+      .start(cliInput.prompt, options)
+      .catch((error) => {
+        if (!res.headersSent) {
+          sendError(res, 500, "api_error", error.message);
+        }
+        resolve();
+      });
+  });
+}
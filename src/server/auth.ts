@@ -0,0 +1,205 @@
+/**
+ * API Key Authentication
+ *
+ * Bearer-token auth for the proxy. Keys come from a JSON key file
+ * (API_KEYS_FILE) or the API_KEYS environment variable. Each key carries
+ * a label, an optional allowed-models list and an optional rate limit.
+ * With no keys configured, auth is disabled (local-only default).
+ *
+ * Key file format:
+ *   {
+ *     "keys": [
+ *       { "key": "sk-team-1", "label": "alice", "models": ["sonnet", "haiku"],
+ *         "requestsPerMinute": 30, "workspaces": ["code-qa"] },
+ *       { "key": "sk-admin", "label": "ops", "admin": true }
+ *     ]
+ *   }
+ *
+ * API_KEYS format: comma separated "key" or "key:label" entries.
+ */
+
+import { createHash } from "crypto";
+import fs from "fs";
+import type { Request, Response, NextFunction } from "express";
+import { modelRegistry } from "../models/registry.js";
+
+export interface ApiKeyPolicy {
+  label: string;
+  /** Allowed model ids, aliases or CLI models (opus/sonnet/haiku); omitted = all */
+  models?: string[];
+  /** Requests per minute for this key; omitted = unlimited */
+  requestsPerMinute?: number;
+  /** Workspace profiles this key may use; when set, a profile is required */
+  workspaces?: string[];
+  /** May read every key's usage from /v1/usage (others see only their own) */
+  admin?: boolean;
+}
+
+interface ApiKeyEntry extends ApiKeyPolicy {
+  key: string;
+}
+
+// Paths that never require a key
+const PUBLIC_PATHS = new Set(["/health"]);
+
+/**
+ * Hash keys so lookups don't compare secrets character by character
+ */
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function loadKeys(): Map<string, ApiKeyPolicy> {
+  const entries: ApiKeyEntry[] = [];
+
+  const keyFile = process.env.API_KEYS_FILE;
+  if (keyFile) {
+    const parsed = JSON.parse(fs.readFileSync(keyFile, "utf-8")) as { keys?: ApiKeyEntry[] };
+    entries.push(...(parsed.keys || []));
+  }
+
+  for (const item of (process.env.API_KEYS || "").split(",")) {
+    const [key, label] = item.trim().split(":");
+    if (key) entries.push({ key, label: label || `key-${entries.length + 1}` });
+  }
+
+  const keys = new Map<string, ApiKeyPolicy>();
+  for (const { key, ...policy } of entries) {
+    if (!key) continue;
+    keys.set(hashKey(key), { ...policy, label: policy.label || `key-${keys.size + 1}` });
+  }
+  return keys;
+}
+
+const apiKeys = loadKeys();
+
+// Request timestamps per key label for the per-minute rate limit
+const requestLog: Map<string, number[]> = new Map();
+
+/**
+ * Whether API key auth is enabled
+ */
+export function isAuthEnabled(): boolean {
+  return apiKeys.size > 0;
+}
+
+/**
+ * Get the label of the key that authenticated this request, if any
+ */
+export function getKeyLabel(res: Response): string | undefined {
+  return (res.locals.apiKey as ApiKeyPolicy | undefined)?.label;
+}
+
+/**
+ * Whether the request may act across keys: an admin key, or any request
+ * when auth is disabled
+ */
+export function isAdminRequest(res: Response): boolean {
+  if (!isAuthEnabled()) return true;
+  return (res.locals.apiKey as ApiKeyPolicy | undefined)?.admin === true;
+}
+
+/**
+ * Whether the request's key may run in the given workspace profile
+ * (undefined = no profile). Keys without a workspaces list may use any.
+ */
+export function isWorkspaceAllowed(res: Response, workspace: string | undefined): boolean {
+  const allowed = (res.locals.apiKey as ApiKeyPolicy | undefined)?.workspaces;
+  if (!allowed) return true;
+  return workspace !== undefined && allowed.includes(workspace);
+}
+
+/**
+ * Read the presented key from Authorization: Bearer or x-api-key
+ */
+function extractKey(req: Request): string | undefined {
+  const header = req.get("authorization");
+  if (header?.toLowerCase().startsWith("bearer ")) {
+    return header.slice(7).trim();
+  }
+  return req.get("x-api-key") || undefined;
+}
+
+/**
+ * Send an error in the format of the endpoint being called
+ */
+function sendAuthError(req: Request, res: Response, status: number, type: string, code: string, message: string): void {
+  if (req.path === "/v1/messages") {
+    const anthropicType = status === 401 ? "authentication_error"
+      : status === 403 ? "permission_error"
+      : "rate_limit_error";
+    res.status(status).json({ type: "error", error: { type: anthropicType, message } });
+    return;
+  }
+  res.status(status).json({ error: { message, type, code } });
+}
+
+function isModelAllowed(policy: ApiKeyPolicy, model: string): boolean {
+  if (!policy.models || policy.models.length === 0) return true;
+  if (policy.models.includes(model)) return true;
+  const resolved = modelRegistry.find(model);
+  return !!resolved && (policy.models.includes(resolved.id) || policy.models.includes(resolved.cliModel));
+}
+
+/**
+ * Check and record a request against the key's per-minute limit.
+ * Returns seconds until a slot frees up, or 0 if allowed.
+ */
+function checkRateLimit(policy: ApiKeyPolicy): number {
+  if (!policy.requestsPerMinute) return 0;
+
+  const now = Date.now();
+  const windowStart = now - 60 * 1000;
+  const recent = (requestLog.get(policy.label) || []).filter((t) => t > windowStart);
+
+  if (recent.length >= policy.requestsPerMinute) {
+    requestLog.set(policy.label, recent);
+    return Math.max(1, Math.ceil((recent[0] - windowStart) / 1000));
+  }
+
+  recent.push(now);
+  requestLog.set(policy.label, recent);
+  return 0;
+}
+
+/**
+ * Express middleware enforcing API keys and per-key policy
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  if (!isAuthEnabled() || PUBLIC_PATHS.has(req.path)) {
+    next();
+    return;
+  }
+
+  const key = extractKey(req);
+  const policy = key ? apiKeys.get(hashKey(key)) : undefined;
+  if (!policy) {
+    sendAuthError(
+      req, res, 401, "invalid_request_error", "invalid_api_key",
+      key ? "Incorrect API key provided." : "Missing API key. Pass it as 'Authorization: Bearer <key>'."
+    );
+    return;
+  }
+  res.locals.apiKey = policy;
+
+  const model = (req.body as { model?: unknown } | undefined)?.model;
+  if (typeof model === "string" && !isModelAllowed(policy, model)) {
+    sendAuthError(
+      req, res, 403, "invalid_request_error", "model_not_allowed",
+      `API key '${policy.label}' is not allowed to use model '${model}'.`
+    );
+    return;
+  }
+
+  const retryAfter = checkRateLimit(policy);
+  if (retryAfter > 0) {
+    res.setHeader("Retry-After", String(retryAfter));
+    sendAuthError(
+      req, res, 429, "rate_limit_error", "rate_limit_exceeded",
+      `Rate limit of ${policy.requestsPerMinute} requests per minute exceeded for key '${policy.label}'.`
+    );
+    return;
+  }
+
+  next();
+}
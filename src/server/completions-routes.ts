@@ -0,0 +1,290 @@
+/**
+ * Legacy Text Completions Route Handler
+ *
+ * Implements POST /v1/completions for prompt-style clients on top of the
+ * chat pipeline (openaiToCli + ClaudeSubprocess). Supports suffix
+ * (fill-in-the-middle), echo, stop and max_tokens; one choice per request.
+ * Built-in CLI tools are disabled unless a workspace profile enables them.
+ */
+
+import type { Request, Response } from "express";
+import type { ClaudeSubprocess, SubprocessStartOptions } from "../subprocess/manager.js";
+import { openaiToCli, type CliInput } from "../adapter/openai-to-cli.js";
+import { completionsToOpenai, createCompletionObject, getPromptText } from "../adapter/completions.js";
+import {
+  IGNORED_PARAMETERS_HEADER,
+  OutputLimiter,
+  ParameterError,
+  applyOutputLimits,
+  checkParameters,
+  estimateTokens,
+  type OutputLimits,
+} from "../adapter/parameters.js";
+import type { CompletionsRequest } from "../types/completions.js";
+import type { ClaudeCliResult, ClaudeCliStreamEvent } from "../types/claude-cli.js";
+import { QueueFullError, type ReleaseFn } from "../subprocess/queue.js";
+import { classifyCliResult } from "../adapter/cli-errors.js";
+import {
+  acquireSubprocess,
+  buildSubprocessOptions,
+  getUsageContext,
+  lookupCachedRun,
+  sendCliError,
+  sendQueueFullError,
+  sendWorkspaceError,
+  waitForRun,
+  writeCliStreamError,
+} from "./routes.js";
+import { WorkspaceError, resolveWorkspace } from "./workspaces.js";
+import { getRequestId, getRequestLog } from "./request-id.js";
+
+/**
+ * Send an OpenAI-format error response
+ */
+function sendError(res: Response, status: number, message: string, type: string, code: string | null): void {
+  res.status(status).json({ error: { message, type, code } });
+}
+
+/**
+ * Handle POST /v1/completions
+ */
+export async function handleCompletions(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const requestId = getRequestId(res);
+  const body = req.body as CompletionsRequest;
+
+  let prompt: string;
+  let limits: OutputLimits;
+  let cliInput: CliInput;
+  try {
+    prompt = getPromptText(body.prompt);
+    const request = completionsToOpenai(body);
+    const bestOf = body.best_of !== undefined && body.best_of !== null && body.best_of !== 1;
+    const checked = checkParameters(request, true, bestOf ? ["best_of"] : []);
+    if (checked.n > 1) {
+      throw new ParameterError("n > 1 is not supported on /v1/completions", "n", "unsupported_parameter");
+    }
+    if (checked.ignored.length > 0) {
+      res.setHeader(IGNORED_PARAMETERS_HEADER, checked.ignored.join(", "));
+    }
+    limits = checked.limits;
+    cliInput = openaiToCli(request);
+  } catch (error) {
+    if (error instanceof ParameterError) {
+      res.status(400).json({
+        error: { message: error.message, type: "invalid_request_error", param: error.param, code: error.code },
+      });
+      return;
+    }
+    const message = error instanceof Error ? error.message : "Invalid request";
+    sendError(res, 400, message, "invalid_request_error", "invalid_prompt");
+    return;
+  }
+
+  // Completions want raw text, not file reads or shell commands
+  cliInput.tools = [];
+  const echo = body.echo === true ? prompt : "";
+
+  let release: ReleaseFn | undefined;
+  try {
+    const workspace = resolveWorkspace(req, res);
+    const options = buildSubprocessOptions(cliInput, workspace, getRequestLog(res), getUsageContext(res));
+    const cache = await lookupCachedRun(res, cliInput, options);
+    release = await waitForRun(res, cliInput.model, cache);
+    const subprocess = acquireSubprocess(options, cache);
+    subprocess.once("close", release);
+    if (body.stream === true) {
+      await handleStreamingCompletions(res, subprocess, cliInput, options, body.model, limits, echo, requestId);
+    } else {
+      await handleNonStreamingCompletions(res, subprocess, cliInput, options, body.model, limits, echo, requestId);
+    }
+  } catch (error) {
+    release?.();
+    if (error instanceof WorkspaceError) {
+      sendWorkspaceError(res, error);
+      return;
+    }
+    if (error instanceof QueueFullError) {
+      sendQueueFullError(res, error);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    getRequestLog(res).error("Completions request failed", { error: message });
+    if (!res.headersSent) {
+      sendError(res, 500, message, "server_error", null);
+    }
+  }
+}
+
+/**
+ * Stream text_completion chunks; the last one carries finish_reason and usage
+ */
+async function handleStreamingCompletions(
+  res: Response,
+  subprocess: ClaudeSubprocess,
+  cliInput: CliInput,
+  options: SubprocessStartOptions,
+  model: string,
+  limits: OutputLimits,
+  echo: string,
+  requestId: string
+): Promise<void> {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+  res.write(":ok\n\n");
+
+  return new Promise<void>((resolve, reject) => {
+    const limiter = new OutputLimiter(limits);
+    let isComplete = false;
+
+    const writeText = (text: string) => {
+      const chunk = createCompletionObject(requestId, model, { text, finish_reason: null });
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    };
+
+    const finish = (result?: ClaudeCliResult) => {
+      isComplete = true;
+      if (res.writableEnded) return;
+      const rest = limiter.flush();
+      if (rest) writeText(rest);
+      // Output cut at max_tokens reports no usage, as when cut mid-stream
+      const chunk = createCompletionObject(
+        requestId,
+        model,
+        { text: "", finish_reason: limiter.finishReason || "stop" },
+        limiter.finishReason === "length" ? undefined : result
+      );
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      res.write("data: [DONE]\n\n");
+      res.end();
+    };
+
+    if (echo) writeText(echo);
+
+    res.on("close", () => {
+      if (!isComplete) {
+        subprocess.kill();
+      }
+      resolve();
+    });
+
+    subprocess.on("content_delta", (event: ClaudeCliStreamEvent) => {
+      const delta = event.event.delta?.text;
+      if (typeof delta !== "string" || !delta || isComplete || res.writableEnded) return;
+      const text = limiter.push(delta);
+      if (text) writeText(text);
+      // Stop sequence or max_tokens reached: end the response and the run
+      if (limiter.stopped) {
+        finish();
+        subprocess.kill();
+      }
+    });
+
+    subprocess.on("result", (result: ClaudeCliResult) => {
+      const cliError = classifyCliResult(result);
+      if (cliError && !res.writableEnded) {
+        isComplete = true;
+        writeCliStreamError(res, cliError);
+        res.write("data: [DONE]\n\n");
+        res.end();
+      } else {
+        finish(result);
+      }
+      resolve();
+    });
+
+    subprocess.on("error", (error: Error) => {
+      getRequestLog(res).error("Subprocess error", { pid: subprocess.pid, error });
+      if (!res.writableEnded) {
+        res.write(`data: ${JSON.stringify({ error: { message: error.message, type: "server_error", code: null } })}\n\n`);
+        res.end();
+      }
+      resolve();
+    });
+
+    subprocess.on("close", (code: number | null) => {
+      if (!res.writableEnded) {
+        if (code !== 0 && !isComplete) {
+          res.write(`data: ${JSON.stringify({
+            error: { message: `Process exited with code ${code}`, type: "server_error", code: null },
+          })}\n\n`);
+        }
+        res.write("data: [DONE]\n\n");
+        res.end();
+      }
+      resolve();
+    });
+
+    subprocess.start(cliInput.prompt, options).catch((err) => {
+      getRequestLog(res).error("Subprocess start error", { error: err });
+      reject(err);
+    });
+  });
+}
+
+/**
+ * Handle non-streaming /v1/completions response
+ */
+async function handleNonStreamingCompletions(
+  res: Response,
+  subprocess: ClaudeSubprocess,
+  cliInput: CliInput,
+  options: SubprocessStartOptions,
+  model: string,
+  limits: OutputLimits,
+  echo: string,
+  requestId: string
+): Promise<void> {
+  return new Promise((resolve) => {
+    let finalResult: ClaudeCliResult | null = null;
+
+    subprocess.on("result", (result: ClaudeCliResult) => {
+      finalResult = result;
+    });
+
+    subprocess.on("error", (error: Error) => {
+      getRequestLog(res).error("Subprocess error", { pid: subprocess.pid, error });
+      if (!res.headersSent) {
+        sendError(res, 500, error.message, "server_error", null);
+      }
+      resolve();
+    });
+
+    subprocess.on("close", (code: number | null) => {
+      const cliError = finalResult ? classifyCliResult(finalResult) : null;
+      if (res.headersSent) {
+        // Already answered (subprocess error)
+      } else if (cliError) {
+        sendCliError(res, cliError);
+      } else if (finalResult) {
+        const raw = typeof finalResult.result === "string" ? finalResult.result : "";
+        const { text, finishReason } = applyOutputLimits(raw, limits);
+        res.json(createCompletionObject(
+          requestId,
+          model,
+          { text: echo + text, finish_reason: finishReason || "stop" },
+          finalResult,
+          // Output cut at max_tokens is reported at its estimated size
+          finishReason === "length" ? estimateTokens(text) : undefined
+        ));
+      } else {
+        sendError(res, 500, `Claude CLI exited with code ${code} without response`, "server_error", null);
+      }
+      resolve();
+    });
+
+    subprocess
+      .start(cliInput.prompt, options)
+      .catch((error) => {
+        if (!res.headersSent) {
+          sendError(res, 500, error.message, "server_error", null);
+        }
+        resolve();
+      });
+  });
+}
@@ -0,0 +1,105 @@
+/**
+ * Embeddings Route Handler
+ *
+ * Implements POST /v1/embeddings with the configured local embedding
+ * provider (see embeddings/providers.ts), returning OpenAI-shaped
+ * responses so RAG clients can use the proxy as their only base URL.
+ */
+
+import type { Request, Response } from "express";
+import { EmbeddingError, embeddingProvider, normalize } from "../embeddings/providers.js";
+import { estimateTokens } from "../adapter/parameters.js";
+import type { EmbeddingsRequest, EmbeddingsResponse } from "../types/embeddings.js";
+import { getRequestLog } from "./request-id.js";
+
+// OpenAI's limit on inputs per request
+const MAX_INPUTS = 2048;
+
+/**
+ * Send an OpenAI-format error response
+ */
+function sendError(res: Response, status: number, message: string, type: string, code: string | null): void {
+  res.status(status).json({ error: { message, type, code } });
+}
+
+/**
+ * Get the input strings, or an error message
+ */
+function parseInput(input: EmbeddingsRequest["input"]): string[] | string {
+  const inputs = typeof input === "string" ? [input] : input;
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    return "input must be a non-empty string or array of strings";
+  }
+  if (!inputs.every((item): item is string => typeof item === "string")) {
+    return "Token array inputs are not supported; send text";
+  }
+  if (inputs.length > MAX_INPUTS) {
+    return `input accepts at most ${MAX_INPUTS} items`;
+  }
+  if (inputs.some((item) => item.length === 0)) {
+    return "input must not contain empty strings";
+  }
+  return inputs;
+}
+
+/**
+ * Encode a vector as base64 little-endian float32, like the OpenAI API
+ */
+function toBase64(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString("base64");
+}
+
+/**
+ * Handle POST /v1/embeddings
+ */
+export async function handleEmbeddings(req: Request, res: Response): Promise<void> {
+  const body = req.body as EmbeddingsRequest;
+
+  const inputs = parseInput(body.input);
+  if (typeof inputs === "string") {
+    sendError(res, 400, inputs, "invalid_request_error", "invalid_input");
+    return;
+  }
+  const dimensions = body.dimensions;
+  if (dimensions !== undefined && (!Number.isInteger(dimensions) || dimensions < 1)) {
+    sendError(res, 400, "dimensions must be a positive integer", "invalid_request_error", "invalid_dimensions");
+    return;
+  }
+  const encoding = body.encoding_format || "float";
+  if (encoding !== "float" && encoding !== "base64") {
+    sendError(res, 400, "encoding_format must be 'float' or 'base64'", "invalid_request_error", "invalid_encoding_format");
+    return;
+  }
+
+  let vectors: number[][];
+  try {
+    vectors = await embeddingProvider.embed(inputs, dimensions);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    getRequestLog(res).error("Embedding provider error", { provider: embeddingProvider.name, error: message });
+    if (error instanceof EmbeddingError) {
+      sendError(res, 502, message, "server_error", "embedding_backend_error");
+    } else {
+      sendError(res, 500, message, "server_error", null);
+    }
+    return;
+  }
+
+  // Shorten longer vectors and renormalize, as OpenAI does for dimensions
+  if (dimensions !== undefined) {
+    vectors = vectors.map((vector) => vector.length > dimensions ? normalize(vector.slice(0, dimensions)) : vector);
+  }
+
+  const promptTokens = inputs.reduce((sum, input) => sum + estimateTokens(input), 0);
+  const response: EmbeddingsResponse = {
+    object: "list",
+    data: vectors.map((vector, index) => ({
+      object: "embedding",
+      index,
+      embedding: encoding === "base64" ? toBase64(vector) : vector,
+    })),
+    model: body.model,
+    usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+  };
+  res.json(response);
+}
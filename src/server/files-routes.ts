@@ -0,0 +1,168 @@
+/**
+ * Files API Route Handlers
+ *
+ * Implements /v1/files upload, list, retrieve, content and delete on top
+ * of the local file store. Uploaded files are referenced from messages by
+ * file_id instead of resending base64 data every turn. Keys only see the
+ * files they uploaded; admin keys see every file.
+ */
+
+import type { Request, Response } from "express";
+import { fileStore, type StoredFile } from "../files/store.js";
+import { FileInputError, convertFilePart, sniffMediaType } from "../adapter/file-inputs.js";
+import { getKeyLabel, isAdminRequest } from "./auth.js";
+import { getRequestLog } from "./request-id.js";
+
+/**
+ * OpenAI file object for a stored file
+ */
+function toFileObject(file: StoredFile) {
+  return {
+    id: file.id,
+    object: "file",
+    bytes: file.bytes,
+    created_at: Math.floor(file.createdAt / 1000),
+    expires_at: Math.floor(file.expiresAt / 1000),
+    filename: file.filename,
+    purpose: file.purpose,
+    status: "processed",
+  };
+}
+
+/**
+ * Owner whose files the request may use: its key label, or null (every
+ * file) for admin keys and when auth is disabled
+ */
+export function getFileOwner(res: Response): string | null {
+  return isAdminRequest(res) ? null : getKeyLabel(res) ?? null;
+}
+
+/**
+ * Content-Disposition for a download: an ASCII fallback filename plus the
+ * UTF-8 name (RFC 6266)
+ */
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "");
+  // encodeURIComponent leaves a few characters RFC 5987 doesn't allow
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+function sendError(res: Response, status: number, message: string, code: string | null): void {
+  res.status(status).json({
+    error: { message, type: "invalid_request_error", code },
+  });
+}
+
+function sendNotFound(res: Response, id: string): void {
+  sendError(res, 404, `No such File object: ${id}`, "file_not_found");
+}
+
+/**
+ * Handle POST /v1/files (multipart/form-data with "file" and "purpose")
+ */
+export async function handleUploadFile(req: Request, res: Response): Promise<void> {
+  const contentType = req.get("content-type") || "";
+  if (!contentType.startsWith("multipart/form-data") || !Buffer.isBuffer(req.body)) {
+    sendError(res, 400, "Uploads must be multipart/form-data with a 'file' field", "invalid_upload");
+    return;
+  }
+
+  let form: FormData;
+  try {
+    // The WHATWG Request parser handles multipart bodies without extra dependencies
+    form = await new globalThis.Request("http://localhost/v1/files", {
+      method: "POST",
+      headers: { "content-type": contentType },
+      body: req.body,
+    }).formData();
+  } catch {
+    sendError(res, 400, "Could not parse multipart/form-data body", "invalid_upload");
+    return;
+  }
+
+  const file = form.get("file");
+  if (!file || typeof file === "string") {
+    sendError(res, 400, "Missing 'file' field", "invalid_upload");
+    return;
+  }
+  const purpose = typeof form.get("purpose") === "string" ? (form.get("purpose") as string) : "user_data";
+  const filename = file.name || "upload";
+  const content = Buffer.from(await file.arrayBuffer());
+  const declaredType = file.type && file.type !== "application/octet-stream" ? file.type.toLowerCase() : undefined;
+  const mediaType = sniffMediaType(content) || declaredType || "application/octet-stream";
+
+  try {
+    // Reject files that could never be used in a message
+    convertFilePart({
+      type: "input_file",
+      file_data: `data:${mediaType};base64,${content.toString("base64")}`,
+      filename,
+    });
+
+    const stored = await fileStore.create(content, filename, purpose, mediaType, getKeyLabel(res));
+    getRequestLog(res).info("File stored", { fileId: stored.id, filename, mediaType, bytes: stored.bytes });
+    res.json(toFileObject(stored));
+  } catch (error) {
+    if (error instanceof FileInputError) {
+      sendError(res, 400, error.message, "invalid_file");
+      return;
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    getRequestLog(res).error("File store error", { error: message });
+    res.status(500).json({ error: { message, type: "server_error", code: null } });
+  }
+}
+
+/**
+ * Handle GET /v1/files
+ */
+export function handleListFiles(req: Request, res: Response): void {
+  const purpose = typeof req.query.purpose === "string" ? req.query.purpose : undefined;
+  res.json({
+    object: "list",
+    data: fileStore.list(purpose, getFileOwner(res)).map(toFileObject),
+    has_more: false,
+  });
+}
+
+/**
+ * Handle GET /v1/files/:id
+ */
+export function handleGetFile(req: Request, res: Response): void {
+  const id = String(req.params.id);
+  const file = fileStore.get(id, getFileOwner(res));
+  if (!file) {
+    sendNotFound(res, id);
+    return;
+  }
+  res.json(toFileObject(file));
+}
+
+/**
+ * Handle GET /v1/files/:id/content
+ */
+export function handleGetFileContent(req: Request, res: Response): void {
+  const id = String(req.params.id);
+  const file = fileStore.get(id, getFileOwner(res));
+  const content = file ? fileStore.readContent(file.id) : undefined;
+  if (!file || !content) {
+    sendNotFound(res, id);
+    return;
+  }
+  res.setHeader("Content-Type", file.mediaType);
+  res.setHeader("Content-Disposition", contentDisposition(file.filename));
+  res.send(content);
+}
+
+/**
+ * Handle DELETE /v1/files/:id
+ */
+export function handleDeleteFile(req: Request, res: Response): void {
+  const id = String(req.params.id);
+  if (!fileStore.get(id, getFileOwner(res)) || !fileStore.delete(id)) {
+    sendNotFound(res, id);
+    return;
+  }
+  res.json({ id, object: "file", deleted: true });
+}
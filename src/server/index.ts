@@ -6,7 +6,33 @@
 
 import express, { Express, Request, Response, NextFunction } from "express";
 import { createServer, Server } from "http";
-import { handleChatCompletions, handleModels, handleHealth } from "./routes.js";
+import {
+  handleChatCompletions,
+  handleHealth,
+  handleMetrics,
+  handleModel,
+  handleModels,
+  requireKnownModel,
+  trackRequestMetrics,
+} from "./routes.js";
+import { handleMessages } from "./anthropic-routes.js";
+import { handleResponses } from "./responses-routes.js";
+import { handleCompletions } from "./completions-routes.js";
+import { handleEmbeddings } from "./embeddings-routes.js";
+import { handleUsage } from "./usage-routes.js";
+import { enforceQuotas } from "./quotas.js";
+import {
+  handleDeleteFile,
+  handleGetFile,
+  handleGetFileContent,
+  handleListFiles,
+  handleUploadFile,
+} from "./files-routes.js";
+import { MAX_FILE_BYTES } from "../adapter/file-inputs.js";
+import { subprocessPool } from "../subprocess/pool.js";
+import { authenticate, isAuthEnabled } from "./auth.js";
+import { assignRequestId, getRequestLog } from "./request-id.js";
+import { logger } from "../logging/logger.js";
 
 export interface ServerConfig {
   port: number;
@@ -24,19 +50,24 @@ function createApp(): Express {
   // Middleware
   app.use(express.json({ limit: "50mb" })); // Large limit for base64 images
 
-  // Request logging (debug mode)
-  app.use((req: Request, _res: Response, next: NextFunction) => {
-    if (process.env.DEBUG) {
-      console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-    }
+  // Request id (client X-Request-Id or generated) and request logger
+  app.use(assignRequestId);
+
+  // Request logging (debug level)
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    getRequestLog(res).debug("Request", { method: req.method, path: req.path });
     next();
   });
 
+  // Request count, latency and disconnect metrics
+  app.use(trackRequestMetrics);
+
   // CORS headers for local development
   app.use((_req: Request, res: Response, next: NextFunction) => {
     res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, x-api-key, anthropic-version, X-Conversation-Id, X-Workspace-Profile, X-Workspace-Dir, X-Tool-Activity, X-Request-Id, Cache-Control");
+    res.setHeader("Access-Control-Expose-Headers", "X-Request-Id, X-Cache");
     next();
   });
 
@@ -45,10 +76,30 @@ function createApp(): Express {
     res.sendStatus(200);
   });
 
+  // API key auth (no-op when no keys are configured)
+  app.use(authenticate);
+
   // Routes
   app.get("/health", handleHealth);
+  app.get("/metrics", handleMetrics);
   app.get("/v1/models", handleModels);
-  app.post("/v1/chat/completions", handleChatCompletions);
+  app.get("/v1/models/*", handleModel);
+  app.post("/v1/chat/completions", requireKnownModel, enforceQuotas, handleChatCompletions);
+  app.post("/v1/completions", requireKnownModel, enforceQuotas, handleCompletions);
+  app.post("/v1/embeddings", handleEmbeddings);
+  app.get("/v1/usage", handleUsage);
+  app.post("/v1/messages", requireKnownModel, enforceQuotas, handleMessages);
+  app.post("/v1/responses", requireKnownModel, enforceQuotas, handleResponses);
+  app.post(
+    "/v1/files",
+    // Room for multipart framing around the largest accepted file
+    express.raw({ type: "multipart/form-data", limit: MAX_FILE_BYTES + 1024 * 1024 }),
+    handleUploadFile
+  );
+  app.get("/v1/files", handleListFiles);
+  app.get("/v1/files/:id", handleGetFile);
+  app.get("/v1/files/:id/content", handleGetFileContent);
+  app.delete("/v1/files/:id", handleDeleteFile);
 
   // 404 handler
   app.use((_req: Request, res: Response) => {
@@ -63,7 +114,7 @@ function createApp(): Express {
 
   // Error handler
   app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-    console.error("[Server Error]:", err.message);
+    getRequestLog(res).error("Unhandled error", { error: err });
     res.status(500).json({
       error: {
         message: err.message,
@@ -83,7 +134,7 @@ export async function startServer(config: ServerConfig): Promise<Server> {
   const { port, host = "127.0.0.1" } = config;
 
   if (serverInstance) {
-    console.log("[Server] Already running, returning existing instance");
+    logger.info("Server already running, returning existing instance");
     return serverInstance;
   }
 
@@ -101,8 +152,15 @@ export async function startServer(config: ServerConfig): Promise<Server> {
     });
 
     serverInstance.listen(port, host, () => {
-      console.log(`[Server] Claude Code CLI provider running at http://${host}:${port}`);
-      console.log(`[Server] OpenAI-compatible endpoint: http://${host}:${port}/v1/chat/completions`);
+      logger.info("Claude Code CLI provider running", {
+        url: `http://${host}:${port}`,
+        openai: `http://${host}:${port}/v1/chat/completions`,
+        anthropic: `http://${host}:${port}/v1/messages`,
+      });
+      if (!isAuthEnabled() && host !== "127.0.0.1" && host !== "localhost") {
+        logger.warn("Listening without API keys; set API_KEYS or API_KEYS_FILE", { host });
+      }
+      subprocessPool.start(process.env.OPENCLAW_WORKSPACE || process.env.CLAWDBOT_WORKSPACE);
       resolve(serverInstance!);
     });
   });
@@ -116,12 +174,14 @@ export async function stopServer(): Promise<void> {
     return;
   }
 
+  subprocessPool.shutdown();
+
   return new Promise((resolve, reject) => {
     serverInstance!.close((err) => {
       if (err) {
         reject(err);
       } else {
-        console.log("[Server] Stopped");
+        logger.info("Server stopped");
         serverInstance = null;
         resolve();
       }
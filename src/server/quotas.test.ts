@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { QuotaTracker, formatReset } from "./quotas.js";
+import type { UsageRecord } from "../usage/ledger.js";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const NOW = Date.parse("2026-01-01T12:00:00Z");
+
+function usage(user: string, tokens: number, endUser?: string): UsageRecord {
+  return {
+    timestamp: new Date(NOW).toISOString(),
+    user,
+    endUser,
+    model: "sonnet",
+    cliModel: "sonnet",
+    inputTokens: tokens,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    durationMs: 0,
+    costUsd: 0,
+    isError: false,
+  };
+}
+
+describe("formatReset", () => {
+  it("formats like OpenAI's reset headers", () => {
+    assert.equal(formatReset(0), "0s");
+    assert.equal(formatReset(1500), "2s");
+    assert.equal(formatReset(61 * 1000), "1m1s");
+    assert.equal(formatReset(HOUR_MS + 2 * MINUTE_MS + 3000), "1h2m3s");
+  });
+
+  it("clamps negative durations", () => {
+    assert.equal(formatReset(-5000), "0s");
+  });
+});
+
+describe("QuotaTracker", () => {
+  it("uses a key's own quota before the '*' default", () => {
+    const tracker = new QuotaTracker({
+      keys: { "*": { requestsPerMinute: 5 }, ci: { requestsPerMinute: 1 } },
+      users: { "*": { concurrentRequests: 1 } },
+    });
+
+    assert.deepEqual(tracker.subjects("ci", undefined).map((s) => s.quota), [{ requestsPerMinute: 1 }]);
+    assert.deepEqual(
+      tracker.subjects("other", "bob").map((s) => s.id),
+      ["key:other", "user:bob"]
+    );
+  });
+
+  it("is disabled without quotas", () => {
+    assert.equal(new QuotaTracker({}).enabled, false);
+    assert.deepEqual(new QuotaTracker({}).subjects("ci", "bob"), []);
+  });
+
+  it("allows requestsPerMinute within a sliding minute", () => {
+    const tracker = new QuotaTracker({ keys: { ci: { requestsPerMinute: 2 } } });
+    const subjects = tracker.subjects("ci", undefined);
+
+    tracker.begin(subjects, NOW);
+    tracker.begin(subjects, NOW + 10 * 1000);
+    const blocked = tracker.check(subjects, NOW + 20 * 1000);
+    assert.equal(blocked.allowed, false);
+    assert.equal(blocked.allowed === false && blocked.code, "rate_limit_exceeded");
+    // Frees up when the first request leaves the window
+    assert.equal(blocked.allowed === false && blocked.retryAfterMs, 40 * 1000);
+
+    const later = tracker.check(subjects, NOW + MINUTE_MS + 1);
+    assert.equal(later.allowed, true);
+    assert.equal(later.allowed && later.requests?.remaining, 1);
+  });
+
+  it("limits concurrent requests until they end", () => {
+    const tracker = new QuotaTracker({ users: { "*": { concurrentRequests: 1 } } });
+    const subjects = tracker.subjects("ci", "bob");
+
+    const end = tracker.begin(subjects, NOW);
+    const blocked = tracker.check(subjects, NOW);
+    assert.equal(blocked.allowed === false && blocked.code, "concurrency_limit_exceeded");
+
+    end();
+    end();
+    assert.equal(tracker.check(subjects, NOW).allowed, true);
+    // Ending twice does not free a second slot
+    tracker.begin(subjects, NOW);
+    assert.equal(tracker.check(subjects, NOW).allowed, false);
+  });
+
+  it("blocks token budgets until enough usage ages out", () => {
+    const tracker = new QuotaTracker({ keys: { ci: { tokensPerHour: 1000 } } });
+    const subjects = tracker.subjects("ci", undefined);
+
+    tracker.recordUsage(usage("ci", 600), NOW);
+    const within = tracker.check(subjects, NOW + MINUTE_MS);
+    assert.equal(within.allowed && within.tokens?.remaining, 400);
+
+    tracker.recordUsage(usage("ci", 500), NOW + 10 * MINUTE_MS);
+    const blocked = tracker.check(subjects, NOW + 20 * MINUTE_MS);
+    assert.equal(blocked.allowed === false && blocked.code, "token_quota_exceeded");
+    // The first record leaving the hour brings usage back under the limit
+    assert.equal(blocked.allowed === false && blocked.retryAfterMs, 40 * MINUTE_MS);
+
+    assert.equal(tracker.check(subjects, NOW + HOUR_MS + 1).allowed, true);
+  });
+
+  it("counts usage against both the key and the end user", () => {
+    const tracker = new QuotaTracker({
+      keys: { "*": { tokensPerDay: 10000 } },
+      users: { "*": { tokensPerHour: 100 } },
+    });
+
+    tracker.recordUsage(usage("ci", 150, "bob"), NOW);
+    assert.equal(tracker.check(tracker.subjects("ci", "bob"), NOW).allowed, false);
+    assert.equal(tracker.check(tracker.subjects("ci", "alice"), NOW).allowed, true);
+  });
+});
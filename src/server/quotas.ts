@@ -0,0 +1,345 @@
+/**
+ * Per-Key and Per-User Quotas
+ *
+ * Request, token and concurrency budgets for endpoints that run the CLI,
+ * checked before a subprocess is spawned so one runaway script cannot
+ * drain the shared subscription. Budgets apply to the API key label and,
+ * separately, to the end user the request names (OpenAI `user`,
+ * Anthropic `metadata.user_id`); a request must fit both.
+ *
+ * Configured with QUOTAS_FILE (path to JSON) or QUOTAS (inline JSON):
+ *   {
+ *     "keys": {
+ *       "*": { "tokensPerDay": 2000000 },
+ *       "ci": { "requestsPerMinute": 10, "tokensPerHour": 100000, "concurrentRequests": 2 }
+ *     },
+ *     "users": { "*": { "tokensPerHour": 200000, "concurrentRequests": 3 } }
+ *   }
+ * "*" applies to every key or user without its own entry. Requests
+ * without an API key (auth disabled) count as key "anonymous".
+ *
+ * Tokens are input, output and cache creation tokens from the usage
+ * ledger; cache reads are not counted. Token budgets are checked before a
+ * run (a run that starts within budget may end over it).
+ */
+
+import fs from "fs";
+import type { Request, Response, NextFunction } from "express";
+import { ANONYMOUS_USER, usageLedger, type UsageRecord } from "../usage/ledger.js";
+import { logger } from "../logging/logger.js";
+import { getKeyLabel } from "./auth.js";
+import { getEndUser } from "./routes.js";
+
+const log = logger.child({ component: "QuotaTracker" });
+
+export interface Quota {
+  requestsPerMinute?: number;
+  tokensPerHour?: number;
+  tokensPerDay?: number;
+  /** Requests in flight at once (streaming or not) */
+  concurrentRequests?: number;
+}
+
+export interface QuotaConfig {
+  keys?: Record<string, Quota>;
+  users?: Record<string, Quota>;
+}
+
+/** A key or end user a request is accounted to, with its budget */
+interface QuotaSubject {
+  id: string;
+  description: string;
+  quota: Quota;
+}
+
+/** A budget as reported in x-ratelimit-* headers */
+interface Budget {
+  limit: number;
+  remaining: number;
+  resetMs: number;
+}
+
+type QuotaCheck =
+  | { allowed: true; requests?: Budget; tokens?: Budget }
+  | { allowed: false; code: string; message: string; retryAfterMs: number };
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+function loadConfig(): QuotaConfig {
+  if (process.env.QUOTAS_FILE) {
+    return JSON.parse(fs.readFileSync(process.env.QUOTAS_FILE, "utf-8")) as QuotaConfig;
+  }
+  if (process.env.QUOTAS) {
+    return JSON.parse(process.env.QUOTAS) as QuotaConfig;
+  }
+  return {};
+}
+
+/**
+ * Tokens a ledger record counts against token budgets
+ */
+function quotaTokens(record: UsageRecord): number {
+  return record.inputTokens + record.outputTokens + record.cacheCreationTokens;
+}
+
+/**
+ * Format a reset duration like OpenAI's headers ("1s", "6m0s", "1h2m3s")
+ */
+export function formatReset(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  if (hours > 0) return `${hours}h${minutes}m${seconds}s`;
+  if (minutes > 0) return `${minutes}m${seconds}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * The budget with the least remaining
+ */
+function tightest(a: Budget | undefined, b: Budget | undefined): Budget | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return b.remaining < a.remaining ? b : a;
+}
+
+export class QuotaTracker {
+  private config: QuotaConfig;
+  // Request timestamps per subject (last minute)
+  private requests: Map<string, number[]> = new Map();
+  // Token usage per subject (last day), oldest first
+  private tokens: Map<string, { time: number; tokens: number }[]> = new Map();
+  // Requests in flight per subject
+  private active: Map<string, number> = new Map();
+
+  constructor(config: QuotaConfig) {
+    this.config = config;
+    usageLedger.onRecord((record) => this.recordUsage(record, Date.now()));
+  }
+
+  get enabled(): boolean {
+    return Object.keys(this.config.keys || {}).length > 0 || Object.keys(this.config.users || {}).length > 0;
+  }
+
+  /**
+   * Seed token usage from the last day of the ledger, so budgets survive restarts
+   */
+  async load(): Promise<void> {
+    if (!this.enabled) return;
+    const since = Date.now() - DAY_MS;
+    let count = 0;
+    for await (const record of usageLedger.records()) {
+      const time = Date.parse(record.timestamp);
+      if (time >= since) {
+        this.recordUsage(record, time);
+        count++;
+      }
+    }
+    log.info("Loaded token usage", { records: count });
+  }
+
+  /**
+   * Subjects with a budget for this key label and end user
+   */
+  subjects(keyLabel: string, endUser: string | undefined): QuotaSubject[] {
+    const subjects: QuotaSubject[] = [];
+    const keyQuota = this.config.keys?.[keyLabel] ?? this.config.keys?.["*"];
+    if (keyQuota) {
+      subjects.push({ id: `key:${keyLabel}`, description: `API key '${keyLabel}'`, quota: keyQuota });
+    }
+    if (endUser !== undefined) {
+      const userQuota = this.config.users?.[endUser] ?? this.config.users?.["*"];
+      if (userQuota) {
+        subjects.push({ id: `user:${endUser}`, description: `user '${endUser}'`, quota: userQuota });
+      }
+    }
+    return subjects;
+  }
+
+  /**
+   * Check every subject's budget for one more request
+   */
+  check(subjects: QuotaSubject[], now: number = Date.now()): QuotaCheck {
+    let requests: Budget | undefined;
+    let tokens: Budget | undefined;
+
+    for (const subject of subjects) {
+      const { quota } = subject;
+
+      if (quota.concurrentRequests !== undefined) {
+        const active = this.active.get(subject.id) || 0;
+        if (active >= quota.concurrentRequests) {
+          return {
+            allowed: false,
+            code: "concurrency_limit_exceeded",
+            message: `Concurrent request limit of ${quota.concurrentRequests} reached for ${subject.description}.`,
+            retryAfterMs: 1000,
+          };
+        }
+      }
+
+      if (quota.requestsPerMinute !== undefined) {
+        const recent = this.recentRequests(subject.id, now);
+        const budget: Budget = {
+          limit: quota.requestsPerMinute,
+          remaining: quota.requestsPerMinute - recent.length,
+          resetMs: recent.length > 0 ? recent[0] + MINUTE_MS - now : 0,
+        };
+        if (budget.remaining <= 0) {
+          return {
+            allowed: false,
+            code: "rate_limit_exceeded",
+            message: `Rate limit of ${quota.requestsPerMinute} requests per minute exceeded for ${subject.description}.`,
+            retryAfterMs: budget.resetMs,
+          };
+        }
+        requests = tightest(requests, budget);
+      }
+
+      const windows: [number | undefined, number, string][] = [
+        [quota.tokensPerHour, HOUR_MS, "hour"],
+        [quota.tokensPerDay, DAY_MS, "day"],
+      ];
+      for (const [limit, windowMs, period] of windows) {
+        if (limit === undefined) continue;
+        const budget = this.tokenBudget(subject.id, limit, windowMs, now);
+        if (budget.remaining <= 0) {
+          return {
+            allowed: false,
+            code: "token_quota_exceeded",
+            message: `Token quota of ${limit} tokens per ${period} exceeded for ${subject.description}.`,
+            retryAfterMs: budget.resetMs,
+          };
+        }
+        tokens = tightest(tokens, budget);
+      }
+    }
+
+    return { allowed: true, requests, tokens };
+  }
+
+  /**
+   * Count a request that passed its check; returns the function that ends it
+   */
+  begin(subjects: QuotaSubject[], now: number = Date.now()): () => void {
+    for (const subject of subjects) {
+      if (subject.quota.requestsPerMinute !== undefined) {
+        this.recentRequests(subject.id, now).push(now);
+      }
+      this.active.set(subject.id, (this.active.get(subject.id) || 0) + 1);
+    }
+
+    let ended = false;
+    return () => {
+      if (ended) return;
+      ended = true;
+      for (const subject of subjects) {
+        const active = (this.active.get(subject.id) || 1) - 1;
+        if (active > 0) this.active.set(subject.id, active);
+        else this.active.delete(subject.id);
+      }
+    };
+  }
+
+  /**
+   * Add a run's tokens to the subjects that have a token budget
+   */
+  recordUsage(record: UsageRecord, time: number): void {
+    const tokens = quotaTokens(record);
+    if (tokens <= 0) return;
+    for (const { id, quota } of this.subjects(record.user, record.endUser)) {
+      if (quota.tokensPerHour === undefined && quota.tokensPerDay === undefined) continue;
+      const events = (this.tokens.get(id) || []).filter((event) => event.time > time - DAY_MS);
+      events.push({ time, tokens });
+      this.tokens.set(id, events);
+    }
+  }
+
+  /**
+   * Request timestamps within the last minute (pruned in place)
+   */
+  private recentRequests(id: string, now: number): number[] {
+    const recent = (this.requests.get(id) || []).filter((time) => time > now - MINUTE_MS);
+    this.requests.set(id, recent);
+    return recent;
+  }
+
+  /**
+   * Tokens left in a window, and when enough usage ages out to allow
+   * requests again (or the budget is full again, while within it)
+   */
+  private tokenBudget(id: string, limit: number, windowMs: number, now: number): Budget {
+    const events = (this.tokens.get(id) || []).filter((event) => event.time > now - DAY_MS);
+    this.tokens.set(id, events);
+
+    const inWindow = events.filter((event) => event.time > now - windowMs);
+    let used = inWindow.reduce((sum, event) => sum + event.tokens, 0);
+    const remaining = limit - used;
+
+    let resetMs = 0;
+    for (const event of inWindow) {
+      resetMs = event.time + windowMs - now;
+      used -= event.tokens;
+      if (remaining > 0 ? used <= 0 : used < limit) break;
+    }
+    return { limit, remaining: Math.max(0, remaining), resetMs };
+  }
+}
+
+// Singleton instance
+export const quotaTracker = new QuotaTracker(loadConfig());
+
+quotaTracker.load().catch((err) =>
+  log.error("Load error", { error: err })
+);
+
+/**
+ * Set x-ratelimit-* headers for the tightest request and token budgets
+ */
+function setRateLimitHeaders(res: Response, requests: Budget | undefined, tokens: Budget | undefined): void {
+  if (requests) {
+    res.setHeader("x-ratelimit-limit-requests", String(requests.limit));
+    // This request is already counted
+    res.setHeader("x-ratelimit-remaining-requests", String(Math.max(0, requests.remaining - 1)));
+    res.setHeader("x-ratelimit-reset-requests", formatReset(requests.resetMs || MINUTE_MS));
+  }
+  if (tokens) {
+    res.setHeader("x-ratelimit-limit-tokens", String(tokens.limit));
+    res.setHeader("x-ratelimit-remaining-tokens", String(tokens.remaining));
+    res.setHeader("x-ratelimit-reset-tokens", formatReset(tokens.resetMs));
+  }
+}
+
+/**
+ * Express middleware enforcing quotas for endpoints that run the CLI
+ */
+export function enforceQuotas(req: Request, res: Response, next: NextFunction): void {
+  if (!quotaTracker.enabled) {
+    next();
+    return;
+  }
+
+  const subjects = quotaTracker.subjects(getKeyLabel(res) ?? ANONYMOUS_USER, getEndUser(req));
+  if (subjects.length === 0) {
+    next();
+    return;
+  }
+
+  const result = quotaTracker.check(subjects);
+  if (!result.allowed) {
+    res.setHeader("Retry-After", String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))));
+    if (req.path === "/v1/messages") {
+      res.status(429).json({ type: "error", error: { type: "rate_limit_error", message: result.message } });
+    } else {
+      res.status(429).json({ error: { message: result.message, type: "rate_limit_error", code: result.code } });
+    }
+    return;
+  }
+
+  setRateLimitHeaders(res, result.requests, result.tokens);
+  res.once("close", quotaTracker.begin(subjects));
+  next();
+}
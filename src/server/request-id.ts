@@ -0,0 +1,46 @@
+/**
+ * Request IDs
+ *
+ * Every request gets an id, taken from the client's X-Request-Id header
+ * when it is a safe token, or generated otherwise. The id is echoed in
+ * the X-Request-Id response header (streaming and non-streaming) and is
+ * carried by the request's logger, so calls can be traced end to end.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { logger, type Logger } from "../logging/logger.js";
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Client ids are logged and echoed, so only plain tokens are accepted
+const CLIENT_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Express middleware assigning the request id and request logger
+ */
+export function assignRequestId(req: Request, res: Response, next: NextFunction): void {
+  const clientId = req.get(REQUEST_ID_HEADER);
+  const requestId = clientId && CLIENT_ID_PATTERN.test(clientId)
+    ? clientId
+    : uuidv4().replace(/-/g, "").slice(0, 24);
+
+  res.locals.requestId = requestId;
+  res.locals.log = logger.child({ requestId });
+  res.setHeader("X-Request-Id", requestId);
+  next();
+}
+
+/**
+ * Get the id assigned to this request
+ */
+export function getRequestId(res: Response): string {
+  return res.locals.requestId as string;
+}
+
+/**
+ * Get the logger for this request (carries the request id)
+ */
+export function getRequestLog(res: Response): Logger {
+  return (res.locals.log as Logger | undefined) || logger;
+}
@@ -0,0 +1,364 @@
+/**
+ * OpenAI Responses API Route Handler
+ *
+ * Implements POST /v1/responses on top of the chat completion pipeline
+ * (openaiToCli + ClaudeSubprocess). Stored responses can be continued
+ * with previous_response_id.
+ */
+
+import type { Request, Response } from "express";
+import { randomUUID } from "crypto";
+import type { ClaudeSubprocess, SubprocessStartOptions } from "../subprocess/manager.js";
+import { openaiToCli, type CliInput } from "../adapter/openai-to-cli.js";
+import { resolveRemoteImages } from "../adapter/remote-images.js";
+import { resolveFileInputs } from "../adapter/file-inputs.js";
+import {
+  createResponseObject,
+  responsesInputToMessages,
+  responsesOutputLimits,
+  responsesToOpenai,
+} from "../adapter/responses.js";
+import { OutputLimiter, ParameterError, applyOutputLimits, type OutputLimits } from "../adapter/parameters.js";
+import { responseStore } from "../session/response-store.js";
+import type { OpenAIChatMessage } from "../types/openai.js";
+import type { ResponsesRequest } from "../types/responses.js";
+import type { ClaudeCliResult, ClaudeCliStreamEvent } from "../types/claude-cli.js";
+import { QueueFullError, type ReleaseFn } from "../subprocess/queue.js";
+import { classifyCliResult } from "../adapter/cli-errors.js";
+import {
+  acquireSubprocess,
+  buildSubprocessOptions,
+  getUsageContext,
+  lookupCachedRun,
+  sendCliError,
+  sendQueueFullError,
+  sendWorkspaceError,
+  waitForRun,
+} from "./routes.js";
+import { WorkspaceError, resolveWorkspace, type WorkspaceSelection } from "./workspaces.js";
+import { getRequestLog } from "./request-id.js";
+import { getFileOwner } from "./files-routes.js";
+import { getKeyLabel } from "./auth.js";
+
+/**
+ * Send an OpenAI-format error response
+ */
+function sendError(res: Response, status: number, message: string, type: string, code: string | null): void {
+  res.status(status).json({ error: { message, type, code } });
+}
+
+/**
+ * Handle POST /v1/responses
+ */
+export async function handleResponses(
+  req: Request,
+  res: Response
+): Promise<void> {
+  // Generated here, never taken from the client: stored responses are keyed by it.
+  // The request id (X-Request-Id) stays available for correlation via the logger.
+  const responseId = `resp_${randomUUID().replace(/-/g, "")}`;
+  const log = getRequestLog(res).child({ responseId });
+  const body = req.body as ResponsesRequest;
+
+  const hasInput = typeof body.input === "string"
+    ? body.input.length > 0
+    : Array.isArray(body.input) && body.input.length > 0;
+  if (!hasInput) {
+    sendError(res, 400, "input is required and must be a non-empty string or array", "invalid_request_error", "invalid_input");
+    return;
+  }
+
+  let limits: OutputLimits;
+  try {
+    limits = responsesOutputLimits(body);
+  } catch (error) {
+    if (!(error instanceof ParameterError)) throw error;
+    res.status(400).json({
+      error: { message: error.message, type: "invalid_request_error", param: error.param, code: error.code },
+    });
+    return;
+  }
+
+  let history: OpenAIChatMessage[] = [];
+  if (body.previous_response_id) {
+    // Other keys' responses are reported as missing
+    const previous = responseStore.get(body.previous_response_id, getKeyLabel(res));
+    if (!previous) {
+      sendError(
+        res,
+        404,
+        `Previous response with id '${body.previous_response_id}' not found.`,
+        "invalid_request_error",
+        "previous_response_not_found"
+      );
+      return;
+    }
+    history = previous.messages;
+  }
+
+  let workspace: WorkspaceSelection | undefined;
+  try {
+    workspace = resolveWorkspace(req, res);
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      sendWorkspaceError(res, error);
+      return;
+    }
+    log.error("Workspace resolution failed", { error });
+    sendError(res, 500, "Failed to resolve the workspace", "server_error", null);
+    return;
+  }
+
+  let inputMessages: OpenAIChatMessage[];
+  let cliInput: CliInput;
+  try {
+    inputMessages = responsesInputToMessages(body.input);
+    const request = resolveFileInputs(responsesToOpenai(body, inputMessages, history), getFileOwner(res));
+    cliInput = openaiToCli(await resolveRemoteImages(request));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Invalid request";
+    sendError(res, 400, message, "invalid_request_error", "invalid_input");
+    return;
+  }
+
+  // Store the conversation once the response text is known
+  const store = (text: string) => {
+    if (body.store === false) return;
+    responseStore.save(responseId, [
+      ...history,
+      ...inputMessages,
+      { role: "assistant", content: text },
+    ], getKeyLabel(res));
+  };
+
+  let release: ReleaseFn | undefined;
+  try {
+    const options = buildSubprocessOptions(cliInput, workspace, log, getUsageContext(res));
+    const cache = await lookupCachedRun(res, cliInput, options);
+    release = await waitForRun(res, cliInput.model, cache);
+    const subprocess = acquireSubprocess(options, cache);
+    subprocess.once("close", release);
+    if (body.stream === true) {
+      await handleStreamingResponses(res, subprocess, cliInput, options, body, limits, responseId, store);
+    } else {
+      await handleNonStreamingResponses(res, subprocess, cliInput, options, body, limits, responseId, store);
+    }
+  } catch (error) {
+    release?.();
+    if (error instanceof QueueFullError) {
+      sendQueueFullError(res, error);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.error("Responses request failed", { error: message });
+    if (!res.headersSent) {
+      sendError(res, 500, message, "server_error", null);
+    }
+  }
+}
+
+/**
+ * Stream the Responses event sequence:
+ * response.created → output item/part added → output_text.delta* →
+ * output_text.done → part/item done → response.completed (or
+ * response.incomplete once max_output_tokens cuts the output off)
+ */
+async function handleStreamingResponses(
+  res: Response,
+  subprocess: ClaudeSubprocess,
+  cliInput: CliInput,
+  options: SubprocessStartOptions,
+  request: ResponsesRequest,
+  limits: OutputLimits,
+  responseId: string,
+  store: (text: string) => void
+): Promise<void> {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+  res.write(":ok\n\n");
+
+  return new Promise<void>((resolve, reject) => {
+    const itemId = `msg_${responseId.replace(/^resp_/, "")}`;
+    const limiter = new OutputLimiter(limits);
+    let sequenceNumber = 0;
+    let text = "";
+    let isComplete = false;
+
+    const writeEvent = (type: string, data: object) => {
+      res.write(`event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: sequenceNumber++, ...data })}\n\n`);
+    };
+
+    writeEvent("response.created", { response: createResponseObject(responseId, request) });
+    writeEvent("response.in_progress", { response: createResponseObject(responseId, request) });
+    writeEvent("response.output_item.added", {
+      output_index: 0,
+      item: { type: "message", id: itemId, status: "in_progress", role: "assistant", content: [] },
+    });
+    writeEvent("response.content_part.added", {
+      item_id: itemId,
+      output_index: 0,
+      content_index: 0,
+      part: { type: "output_text", text: "", annotations: [] },
+    });
+
+    res.on("close", () => {
+      if (!isComplete) {
+        subprocess.kill();
+      }
+      resolve();
+    });
+
+    const writeDelta = (delta: string) => {
+      if (!delta) return;
+      text += delta;
+      writeEvent("response.output_text.delta", {
+        item_id: itemId,
+        output_index: 0,
+        content_index: 0,
+        delta,
+      });
+    };
+
+    const complete = (result?: ClaudeCliResult) => {
+      isComplete = true;
+      if (!res.writableEnded) {
+        writeDelta(limiter.flush());
+        const truncated = limiter.finishReason === "length";
+        const completed = createResponseObject(responseId, request, { text, result, truncated });
+        writeEvent("response.output_text.done", {
+          item_id: itemId,
+          output_index: 0,
+          content_index: 0,
+          text,
+        });
+        writeEvent("response.content_part.done", {
+          item_id: itemId,
+          output_index: 0,
+          content_index: 0,
+          part: completed.output[0].content[0],
+        });
+        writeEvent("response.output_item.done", { output_index: 0, item: completed.output[0] });
+        writeEvent(truncated ? "response.incomplete" : "response.completed", { response: completed });
+        res.end();
+      }
+      store(text);
+      resolve();
+    };
+
+    subprocess.on("content_delta", (event: ClaudeCliStreamEvent) => {
+      const delta = event.event.delta?.text;
+      if (typeof delta !== "string" || !delta || isComplete || res.writableEnded) return;
+      writeDelta(limiter.push(delta));
+      if (limiter.stopped) {
+        complete();
+        subprocess.kill();
+      }
+    });
+
+    subprocess.on("result", (result: ClaudeCliResult) => {
+      if (isComplete) return;
+      isComplete = true;
+      const cliError = classifyCliResult(result);
+      if (cliError) {
+        fail(cliError.message, cliError.code);
+        resolve();
+        return;
+      }
+      complete(result);
+    });
+
+    const fail = (message: string, code: string = "server_error") => {
+      if (!res.writableEnded) {
+        writeEvent("response.failed", {
+          response: {
+            ...createResponseObject(responseId, request),
+            status: "failed",
+            error: { code, message },
+          },
+        });
+        res.end();
+      }
+    };
+
+    subprocess.on("error", (error: Error) => {
+      getRequestLog(res).error("Subprocess error", { pid: subprocess.pid, error });
+      fail(error.message);
+      resolve();
+    });
+
+    subprocess.on("close", (code: number | null) => {
+      if (!isComplete) {
+        fail(`Process exited with code ${code}`);
+      }
+      resolve();
+    });
+
+    subprocess.start(cliInput.prompt, options).catch((err) => {
+      getRequestLog(res).error("Subprocess start error", { error: err });
+      reject(err);
+    });
+  });
+}
+
+/**
+ * Handle non-streaming /v1/responses response
+ */
+async function handleNonStreamingResponses(
+  res: Response,
+  subprocess: ClaudeSubprocess,
+  cliInput: CliInput,
+  options: SubprocessStartOptions,
+  request: ResponsesRequest,
+  limits: OutputLimits,
+  responseId: string,
+  store: (text: string) => void
+): Promise<void> {
+  return new Promise((resolve) => {
+    let finalResult: ClaudeCliResult | null = null;
+
+    subprocess.on("result", (result: ClaudeCliResult) => {
+      finalResult = result;
+    });
+
+    subprocess.on("error", (error: Error) => {
+      getRequestLog(res).error("Subprocess error", { pid: subprocess.pid, error });
+      if (!res.headersSent) {
+        sendError(res, 500, error.message, "server_error", null);
+      }
+      resolve();
+    });
+
+    subprocess.on("close", (code: number | null) => {
+      const cliError = finalResult ? classifyCliResult(finalResult) : null;
+      if (res.headersSent) {
+        // Already answered (subprocess error)
+      } else if (cliError) {
+        sendCliError(res, cliError);
+      } else if (finalResult) {
+        const raw = typeof finalResult.result === "string" ? finalResult.result : "";
+        const { text, finishReason } = applyOutputLimits(raw, limits);
+        store(text);
+        res.json(createResponseObject(responseId, request, {
+          text,
+          result: finalResult,
+          truncated: finishReason === "length",
+        }));
+      } else {
+        sendError(res, 500, `Claude CLI exited with code ${code} without response`, "server_error", null);
+      }
+      resolve();
+    });
+
+    subprocess
+      .start(cliInput.prompt, options)
+      .catch((error) => {
+        if (!res.headersSent) {
+          sendError(res, 500, error.message, "server_error", null);
+        }
+        resolve();
+      });
+  });
+}
@@ -4,16 +4,255 @@
  * Implements OpenAI-compatible endpoints for Clawdbot integration
  */
 
-import type { Request, Response } from "express";
-import { v4 as uuidv4 } from "uuid";
-import { ClaudeSubprocess } from "../subprocess/manager.js";
-import { openaiToCli } from "../adapter/openai-to-cli.js";
+import type { NextFunction, Request, Response } from "express";
+import { ClaudeSubprocess, type SubprocessOptions, type SubprocessStartOptions } from "../subprocess/manager.js";
+import { subprocessPool } from "../subprocess/pool.js";
+import { QueueFullError, requestQueue, type ReleaseFn } from "../subprocess/queue.js";
+import { getKeyLabel } from "./auth.js";
+import { getFileOwner } from "./files-routes.js";
+import { getRequestId, getRequestLog } from "./request-id.js";
+import { previewContent, type Logger } from "../logging/logger.js";
+import type { UsageContext } from "../usage/ledger.js";
+import {
+  CACHE_HEADER,
+  ReplaySubprocess,
+  responseCache,
+  responseCacheKey,
+  type CachedRun,
+} from "../cache/response-cache.js";
+import {
+  WORKSPACE_HEADER,
+  WorkspaceError,
+  getWorkspaceNames,
+  resolveWorkspace,
+  type WorkspaceSelection,
+} from "./workspaces.js";
+import { openaiToCli, type CliInput } from "../adapter/openai-to-cli.js";
+import { UnknownModelError, modelRegistry, type ModelDefinition } from "../models/registry.js";
+import { Gauge, metrics } from "../metrics/metrics.js";
 import {
   cliResultToOpenai,
   createDoneChunk,
+  createToolCallsChunk,
+  extractThinkingContent,
 } from "../adapter/cli-to-openai.js";
-import type { OpenAIChatRequest } from "../types/openai.js";
-import type { ClaudeCliAssistant, ClaudeCliResult, ClaudeCliStreamEvent } from "../types/claude-cli.js";
+import { ToolCallStreamParser } from "../adapter/tools.js";
+import {
+  TOOL_ACTIVITY_HEADER,
+  ToolActivityTracker,
+  formatToolActivityEvent,
+  resolveToolActivityMode,
+  toToolCallDelta,
+} from "../adapter/tool-activity.js";
+import { classifyCliResult, cliErrorToOpenai, type CliErrorInfo } from "../adapter/cli-errors.js";
+import { ImageFetchError, resolveRemoteImages } from "../adapter/remote-images.js";
+import { FileInputError, resolveFileInputs, validateFileInputs } from "../adapter/file-inputs.js";
+import {
+  IGNORED_PARAMETERS_HEADER,
+  OutputLimiter,
+  ParameterError,
+  checkParameters,
+  type OutputLimits,
+} from "../adapter/parameters.js";
+import {
+  buildCorrectionPrompt,
+  isJsonResponseFormat,
+  parseStructuredOutput,
+} from "../adapter/structured-output.js";
+import {
+  CONVERSATION_HEADER,
+  abandonSession,
+  commitSession,
+  getConversationKey,
+  planSession,
+  type SessionPlan,
+} from "../session/resume.js";
+import type {
+  OpenAIChatRequest,
+  OpenAIFinishReason,
+  OpenAIResponseFormat,
+  ToolActivity,
+  ToolActivityMode,
+} from "../types/openai.js";
+import type {
+  ClaudeCliAssistant,
+  ClaudeCliResult,
+  ClaudeCliStreamEvent,
+  ClaudeCliUser,
+} from "../types/claude-cli.js";
+
+// Extra attempts when structured output fails validation
+const STRUCTURED_OUTPUT_RETRIES = Math.max(0, parseInt(process.env.STRUCTURED_OUTPUT_RETRIES || "2", 10) || 0);
+
+// Most choices of one request (n > 1) run at the same time
+const MAX_PARALLEL_CHOICES = Math.max(1, parseInt(process.env.MAX_PARALLEL_CHOICES || "2", 10) || 1);
+
+/**
+ * Build subprocess start options from CLI input.
+ * Runs in the selected workspace profile, or with the OpenClaw workspace
+ * as cwd when configured.
+ */
+export function buildSubprocessOptions(
+  cliInput: CliInput,
+  workspace?: WorkspaceSelection,
+  log?: Logger,
+  usage?: UsageContext
+): SubprocessStartOptions {
+  const workspacePath = process.env.OPENCLAW_WORKSPACE || process.env.CLAWDBOT_WORKSPACE;
+  return {
+    model: cliInput.model,
+    sessionId: cliInput.sessionId,
+    resumeSession: cliInput.resumeSession,
+    systemPrompt: cliInput.systemPrompt,
+    tools: workspace ? workspace.tools : cliInput.tools,
+    stdinMessages: cliInput.hasAttachments ? cliInput.stdinMessages : undefined,
+    cwd: workspace ? workspace.cwd : workspacePath,
+    thinkingBudget: cliInput.thinkingBudget,
+    permissionMode: workspace?.permissionMode,
+    loadClaudeMd: workspace?.loadClaudeMd,
+    log,
+    usage,
+  };
+}
+
+/**
+ * End user the request names: OpenAI `user` or Anthropic `metadata.user_id`
+ */
+export function getEndUser(req: Request): string | undefined {
+  const body = req.body as { user?: unknown; metadata?: { user_id?: unknown } } | undefined;
+  const user = body?.user ?? body?.metadata?.user_id;
+  return typeof user === "string" && user ? user : undefined;
+}
+
+/**
+ * Usage ledger context of a request: key label, end user, request id,
+ * route and the registry id of the requested model
+ */
+export function getUsageContext(res: Response): UsageContext {
+  const req = res.req;
+  const requested = (req.body as { model?: unknown } | undefined)?.model;
+  return {
+    requestId: getRequestId(res),
+    user: getKeyLabel(res),
+    endUser: getEndUser(req),
+    model: typeof requested === "string" ? modelRegistry.find(requested)?.id : undefined,
+    route: req.path,
+  };
+}
+
+/**
+ * Send an OpenAI-format error for a rejected workspace selection
+ */
+export function sendWorkspaceError(res: Response, error: WorkspaceError): void {
+  res.status(error.status).json({
+    error: { message: error.message, type: "invalid_request_error", code: error.code },
+  });
+}
+
+/**
+ * Wait for a free request slot for the given model.
+ * The wait is abandoned if the client disconnects while queued.
+ */
+export async function waitForSlot(res: Response, model: string): Promise<ReleaseFn> {
+  const controller = new AbortController();
+  const onClose = () => controller.abort(new Error("Client disconnected while queued"));
+  res.once("close", onClose);
+  try {
+    return await requestQueue.acquire(model, controller.signal);
+  } finally {
+    res.removeListener("close", onClose);
+  }
+}
+
+/**
+ * Cache state of one run: its key, the cached run on a hit, and whether
+ * a fresh run may be stored
+ */
+export interface CacheLookup {
+  key: string;
+  hit?: CachedRun;
+  store: boolean;
+}
+
+/**
+ * Look up a run in the response cache and set the X-Cache header.
+ * Undefined when the cache is off or the run is not cacheable (sessions).
+ * Cache-Control: no-cache skips the lookup; no-store also skips storing.
+ */
+export async function lookupCachedRun(
+  res: Response,
+  cliInput: CliInput,
+  options: SubprocessOptions
+): Promise<CacheLookup | undefined> {
+  if (!responseCache.enabled || cliInput.sessionId) return undefined;
+
+  const cacheControl = (res.req.get("cache-control") || "").toLowerCase();
+  const noStore = cacheControl.includes("no-store");
+  const noCache = noStore || cacheControl.includes("no-cache");
+
+  const key = responseCacheKey(cliInput, options, getKeyLabel(res));
+  const hit = noCache ? undefined : await responseCache.get(key);
+  metrics.responseCache.inc({ result: hit ? "hit" : noCache ? "bypass" : "miss" });
+  res.setHeader(CACHE_HEADER, hit ? "HIT" : "MISS");
+  if (hit) {
+    getRequestLog(res).info("Replaying cached run", { cacheKey: key.slice(0, 16) });
+  }
+  return { key, hit, store: !noStore };
+}
+
+/**
+ * Wait for a free request slot, unless the run is replayed from the cache
+ */
+export async function waitForRun(res: Response, model: string, cache?: CacheLookup): Promise<ReleaseFn> {
+  if (cache?.hit) return () => {};
+  return waitForSlot(res, model);
+}
+
+/**
+ * Get the subprocess for a run: a replay of the cached run on a hit,
+ * otherwise a CLI process whose output is cached when it succeeds
+ */
+export function acquireSubprocess(options: SubprocessOptions, cache?: CacheLookup): ClaudeSubprocess {
+  if (cache?.hit) return new ReplaySubprocess(cache.hit.messages);
+  const subprocess = subprocessPool.acquire(options);
+  if (cache?.store) responseCache.record(cache.key, subprocess);
+  return subprocess;
+}
+
+/**
+ * Send an OpenAI-format 429 for a rejected queue slot
+ */
+export function sendQueueFullError(res: Response, error: QueueFullError): void {
+  res.setHeader("Retry-After", String(error.retryAfter));
+  res.status(429).json({
+    error: {
+      message: error.message,
+      type: "rate_limit_error",
+      code: error.code,
+    },
+  });
+}
+
+/**
+ * Send an OpenAI-format error for a CLI error result (usage limit, auth, overload)
+ */
+export function sendCliError(res: Response, info: CliErrorInfo): void {
+  if (info.retryAfter) {
+    res.setHeader("Retry-After", String(info.retryAfter));
+  }
+  res.status(info.status).json(cliErrorToOpenai(info));
+}
+
+/**
+ * Write a CLI error result as a typed SSE error event.
+ * Headers are already sent, so the reset time goes in the payload.
+ */
+export function writeCliStreamError(res: Response, info: CliErrorInfo): void {
+  const payload = cliErrorToOpenai(info);
+  res.write(`event: error\ndata: ${JSON.stringify({
+    error: { ...payload.error, status: info.status, retry_after: info.retryAfter ?? null },
+  })}\n\n`);
+}
 
 /**
  * Handle POST /v1/chat/completions
@@ -24,25 +263,32 @@ export async function handleChatCompletions(
   req: Request,
   res: Response
 ): Promise<void> {
-  const requestId = uuidv4().replace(/-/g, "").slice(0, 24);
+  const requestId = getRequestId(res);
+  let log = getRequestLog(res);
   const body = req.body as OpenAIChatRequest;
   const stream = body.stream === true;
 
-  // Debug: Log incoming request for diagnostics
-  console.error(`[Request ${requestId}] Incoming request:`, JSON.stringify({
+  // Message content is only previewed when LOG_REDACT_CONTENT=false
+  log.info("Incoming chat request", {
+    key: getKeyLabel(res),
+    workspace: req.get(WORKSPACE_HEADER),
     model: body.model,
     stream: body.stream,
     messageCount: body.messages?.length,
-    messages: body.messages?.map((m, i) => ({
-      index: i,
-      role: m.role,
-      contentType: typeof m.content,
-      contentPreview: typeof m.content === 'string'
-        ? m.content.slice(0, 100)
-        : JSON.stringify(m.content).slice(0, 100)
-    }))
-  }));
+    messages: Array.isArray(body.messages)
+      ? body.messages.map((m, i) => ({
+          index: i,
+          role: m.role,
+          contentType: typeof m.content,
+          content: previewContent(typeof m.content === "string" ? m.content : JSON.stringify(m.content) ?? ""),
+        }))
+      : undefined,
+  });
 
+  let release: ReleaseFn | undefined;
+  // A claimed session not yet handed to a subprocess, abandoned if the
+  // request ends (or fails) before one spawns
+  let unspawnedPlan: SessionPlan | null = null;
   try {
     // Validate request
     if (!body.messages || !Array.isArray(body.messages) || body.messages.length === 0) {
@@ -56,18 +302,144 @@ export async function handleChatCompletions(
       return;
     }
 
+    // Check parameters, pick the workspace, download remote images and check
+    // files before taking a slot
+    let workspace: WorkspaceSelection | undefined;
+    let limits: OutputLimits;
+    let n: number;
+    let request: OpenAIChatRequest;
+    try {
+      const checked = checkParameters(body, !isJsonResponseFormat(body.response_format));
+      limits = checked.limits;
+      n = checked.n;
+      if (checked.ignored.length > 0) {
+        res.setHeader(IGNORED_PARAMETERS_HEADER, checked.ignored.join(", "));
+      }
+      workspace = resolveWorkspace(req, res);
+      request = resolveFileInputs(body, getFileOwner(res));
+      validateFileInputs(request.messages);
+      request = await resolveRemoteImages(request);
+    } catch (error) {
+      if (error instanceof ParameterError) {
+        res.status(400).json({
+          error: { message: error.message, type: "invalid_request_error", param: error.param, code: error.code },
+        });
+        return;
+      }
+      if (error instanceof WorkspaceError) {
+        sendWorkspaceError(res, error);
+        return;
+      }
+      if (error instanceof FileInputError) {
+        res.status(400).json({
+          error: { message: error.message, type: "invalid_request_error", code: "invalid_file" },
+        });
+        return;
+      }
+      if (!(error instanceof ImageFetchError)) throw error;
+      log.warn("Image fetch failed", { error: error.message, url: previewContent(error.url) });
+      res.status(400).json({
+        error: {
+          message: `${error.message}: ${error.url}`,
+          type: "invalid_request_error",
+          code: "invalid_image_url",
+        },
+      });
+      return;
+    }
+
+    // Session resume mode: only send the turns the CLI session lacks.
+    // A session holds one continuation, so n > 1 runs without one.
+    const conversationKey = n === 1 ? getConversationKey(req.get(CONVERSATION_HEADER), body.user, getKeyLabel(res)) : undefined;
+
+    // Other single-choice runs may be replayed from the response cache
+    // (n > 1 asks for distinct choices, so it always runs the CLI)
+    let cachedInput: CliInput | undefined;
+    let cache: CacheLookup | undefined;
+    if (responseCache.enabled && n === 1 && !conversationKey && !isJsonResponseFormat(body.response_format)) {
+      cachedInput = openaiToCli(request);
+      cache = await lookupCachedRun(res, cachedInput, buildSubprocessOptions(cachedInput, workspace));
+    }
+
+    // Wait for a free slot before claiming a session or spawning
+    // (cache hits need none)
+    release = await waitForRun(res, modelRegistry.resolve(body.model).cliModel, cache);
+
+    // JSON response formats are validated (and retried) before anything is sent
+    if (isJsonResponseFormat(body.response_format)) {
+      try {
+        await handleStructuredResponse(res, request, body.response_format, workspace, requestId, stream, log);
+      } finally {
+        release();
+      }
+      return;
+    }
+
+    const plan = conversationKey
+      ? planSession(conversationKey, request.messages, modelRegistry.resolve(body.model).cliModel)
+      : null;
+    unspawnedPlan = plan;
+
     // Convert to CLI input format
-    const cliInput = openaiToCli(body);
-    const subprocess = new ClaudeSubprocess();
+    const cliInput = cachedInput ?? openaiToCli(plan ? { ...request, messages: plan.messages } : request);
+    if (plan) {
+      cliInput.sessionId = plan.claudeSessionId;
+      cliInput.resumeSession = plan.resume;
+    }
+
+    if (plan) {
+      log = log.child({ sessionKey: plan.key });
+    }
+
+    const ctx: ChoiceContext = {
+      cliInput,
+      options: buildSubprocessOptions(cliInput, workspace, log, getUsageContext(res)),
+      cache,
+      limits,
+      requestId,
+      log,
+      toolActivity: resolveToolActivityMode(body.tool_activity, req.get(TOOL_ACTIVITY_HEADER)),
+      n,
+    };
+
+    if (plan) {
+      log.info(plan.resume ? "Resuming session" : "Starting session", {
+        claudeSessionId: plan.claudeSessionId,
+        sentMessages: plan.messages.length,
+        totalMessages: body.messages.length,
+      });
+
+      ctx.onSpawn = (subprocess) => {
+        unspawnedPlan = null;
+        let committed = false;
+        subprocess.on("result", (result: ClaudeCliResult) => {
+          if (classifyCliResult(result)) return;
+          committed = true;
+          commitSession(plan, typeof result.result === "string" ? result.result : "", result.session_id);
+        });
+        subprocess.on("close", () => {
+          if (!committed) abandonSession(plan);
+        });
+      };
+    } else if (n > 1) {
+      log.info("Running choices", { n });
+    }
 
     if (stream) {
-      await handleStreamingResponse(req, res, subprocess, cliInput, requestId);
+      await handleStreamingResponse(res, ctx, release);
     } else {
-      await handleNonStreamingResponse(res, subprocess, cliInput, requestId);
+      await handleNonStreamingResponse(res, ctx, release);
     }
   } catch (error) {
+    release?.();
+    if (error instanceof QueueFullError) {
+      log.warn("Rejected by queue", { error: error.message });
+      sendQueueFullError(res, error);
+      return;
+    }
+
     const message = error instanceof Error ? error.message : "Unknown error";
-    console.error("[handleChatCompletions] Error:", message);
+    log.error("Chat completion failed", { error: message });
 
     if (!res.headersSent) {
       res.status(500).json({
@@ -78,28 +450,258 @@ export async function handleChatCompletions(
         },
       });
     }
+  } finally {
+    if (unspawnedPlan) abandonSession(unspawnedPlan);
   }
 }
 
+/**
+ * Run a CLI input to completion and return its result.
+ * The subprocess is killed if the client disconnects first.
+ */
+function runToResult(
+  cliInput: CliInput,
+  workspace: WorkspaceSelection | undefined,
+  res: Response
+): Promise<ClaudeCliResult> {
+  const options = buildSubprocessOptions(cliInput, workspace, getRequestLog(res), getUsageContext(res));
+  const subprocess = subprocessPool.acquire(options);
+
+  return new Promise((resolve, reject) => {
+    let finalResult: ClaudeCliResult | null = null;
+    const onClientClose = () => subprocess.kill();
+    res.once("close", onClientClose);
+
+    subprocess.on("result", (result: ClaudeCliResult) => {
+      finalResult = result;
+    });
+    subprocess.on("error", (error: Error) => reject(error));
+    subprocess.on("close", (code: number | null) => {
+      res.removeListener("close", onClientClose);
+      if (finalResult) {
+        resolve(finalResult);
+      } else {
+        reject(new Error(`Claude CLI exited with code ${code} without response`));
+      }
+    });
+
+    subprocess.start(cliInput.prompt, options).catch(reject);
+  });
+}
+
+/**
+ * Handle a request with a JSON response_format.
+ *
+ * The output must be validated before it is sent, so nothing is streamed
+ * incrementally: invalid output is sent back to the model with the errors
+ * (up to STRUCTURED_OUTPUT_RETRIES times) and the validated JSON is
+ * returned as one message, or as a single content chunk when streaming.
+ */
+async function handleStructuredResponse(
+  res: Response,
+  body: OpenAIChatRequest,
+  format: Exclude<OpenAIResponseFormat, { type: "text" }>,
+  workspace: WorkspaceSelection | undefined,
+  requestId: string,
+  stream: boolean,
+  log: Logger
+): Promise<void> {
+  if (stream) {
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+    res.write(":ok\n\n");
+  }
+
+  const sendError = (status: number, message: string, type: string, code: string | null) => {
+    if (res.writableEnded) return;
+    if (stream) {
+      res.write(`event: error\ndata: ${JSON.stringify({ error: { message, type, code, status } })}\n\n`);
+      res.write("data: [DONE]\n\n");
+      res.end();
+    } else {
+      res.status(status).json({ error: { message, type, code } });
+    }
+  };
+
+  let messages = body.messages;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let errors: string[] = [];
+
+  // Errors after the SSE headers went out must end the stream here;
+  // the route's catch can only answer requests that have not started
+  try {
+    for (let attempt = 0; attempt <= STRUCTURED_OUTPUT_RETRIES; attempt++) {
+      const result = await runToResult(openaiToCli({ ...body, messages }), workspace, res);
+
+      const cliError = classifyCliResult(result);
+      if (cliError) {
+        if (stream) {
+          writeCliStreamError(res, cliError);
+          res.write("data: [DONE]\n\n");
+          res.end();
+        } else {
+          sendCliError(res, cliError);
+        }
+        return;
+      }
+
+      inputTokens += result.usage?.input_tokens || 0;
+      outputTokens += result.usage?.output_tokens || 0;
+      const text = typeof result.result === "string" ? result.result : "";
+      const parsed = parseStructuredOutput(text, format);
+
+      if (parsed.ok) {
+        const usage = { ...result.usage, input_tokens: inputTokens, output_tokens: outputTokens };
+        const response = cliResultToOpenai({ ...result, result: parsed.json, usage }, requestId);
+        if (!stream) {
+          res.json(response);
+          return;
+        }
+
+        const model = response.model;
+        res.write(`data: ${JSON.stringify({
+          id: `chatcmpl-${requestId}`,
+          object: "chat.completion.chunk",
+          created: response.created,
+          model,
+          choices: [{ index: 0, delta: { role: "assistant", content: parsed.json }, finish_reason: null }],
+        })}\n\n`);
+        res.write(`data: ${JSON.stringify({ ...createDoneChunk(requestId, model), usage: response.usage })}\n\n`);
+        res.write("data: [DONE]\n\n");
+        res.end();
+        return;
+      }
+
+      errors = parsed.errors;
+      log.warn("Structured output invalid", { attempt: attempt + 1, errors: errors.slice(0, 3) });
+      messages = [
+        ...body.messages,
+        { role: "assistant", content: text },
+        { role: "user", content: buildCorrectionPrompt(errors) },
+      ];
+      if (stream && !res.writableEnded) {
+        res.write(":retrying\n\n");
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.error("Structured output failed", { error: message });
+    sendError(500, message, "server_error", null);
+    return;
+  }
+
+  sendError(
+    502,
+    `Model output did not match the requested response_format after ${STRUCTURED_OUTPUT_RETRIES + 1} attempts: ${errors.join("; ")}`,
+    "server_error",
+    "invalid_structured_output"
+  );
+}
+
+/**
+ * Everything needed to run the choices of a chat request
+ */
+interface ChoiceContext {
+  cliInput: CliInput;
+  options: SubprocessStartOptions;
+  limits: OutputLimits;
+  requestId: string;
+  log: Logger;
+  toolActivity: ToolActivityMode;
+  /** Number of choices (n) */
+  n: number;
+  /** Response cache state (single choice only) */
+  cache?: CacheLookup;
+  /** Called with each subprocess before it starts (session tracking) */
+  onSpawn?: (subprocess: ClaudeSubprocess) => void;
+}
+
+/**
+ * Run each choice of a request in its own subprocess.
+ *
+ * The first choice uses the slot the request already holds. Further
+ * choices only run in parallel on slots that are free right now (up to
+ * MAX_PARALLEL_CHOICES), so n > 1 never waits on or starves other
+ * requests; otherwise choices run one after another. A slot is reused
+ * only once the previous process has exited.
+ */
+async function runChoices<T>(
+  res: Response,
+  ctx: ChoiceContext,
+  release: ReleaseFn,
+  run: (index: number, subprocess: ClaudeSubprocess) => Promise<T>
+): Promise<T[]> {
+  const releases = [release];
+  while (releases.length < Math.min(ctx.n, MAX_PARALLEL_CHOICES)) {
+    const extra = requestQueue.tryAcquire(ctx.cliInput.model);
+    if (!extra) break;
+    releases.push(extra);
+  }
+
+  const results: T[] = [];
+  let next = 0;
+  await Promise.all(releases.map(async (releaseSlot) => {
+    let closed: Promise<void> = Promise.resolve();
+    try {
+      for (;;) {
+        await closed;
+        // Stop once every choice is taken or the response is over
+        if (next >= ctx.n || res.writableEnded || res.destroyed) break;
+        const index = next++;
+        const subprocess = acquireSubprocess(ctx.options, ctx.cache);
+        closed = new Promise((resolve) => subprocess.once("close", () => resolve()));
+        ctx.onSpawn?.(subprocess);
+        results[index] = await run(index, subprocess);
+      }
+    } catch (error) {
+      releaseSlot();
+      throw error;
+    }
+    closed.then(releaseSlot);
+  }));
+  return results;
+}
+
+/**
+ * Sum CLI usage across choices in OpenAI format
+ */
+function sumUsage(results: (ClaudeCliResult | null | undefined)[]) {
+  let promptTokens = 0;
+  let completionTokens = 0;
+  for (const result of results) {
+    promptTokens += result?.usage?.input_tokens || 0;
+    completionTokens += result?.usage?.output_tokens || 0;
+  }
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
 /**
  * Handle streaming response (SSE)
  *
+ * With n > 1 the chunks of all choices are interleaved, each carrying its
+ * choice index, and the summed usage of the completed choices follows in
+ * a last chunk without choices.
+ *
  * IMPORTANT: The Express req.on("close") event fires when the request body
  * is fully received, NOT when the client disconnects. For SSE connections,
  * we use res.on("close") to detect actual client disconnection.
  */
 async function handleStreamingResponse(
-  req: Request,
   res: Response,
-  subprocess: ClaudeSubprocess,
-  cliInput: ReturnType<typeof openaiToCli>,
-  requestId: string
+  ctx: ChoiceContext,
+  release: ReleaseFn
 ): Promise<void> {
   // Set SSE headers
   res.setHeader("Content-Type", "text/event-stream");
   res.setHeader("Cache-Control", "no-cache");
   res.setHeader("Connection", "keep-alive");
-  res.setHeader("X-Request-Id", requestId);
 
   // CRITICAL: Flush headers immediately to establish SSE connection
   // Without this, headers are buffered and client times out waiting
@@ -108,36 +710,70 @@ async function handleStreamingResponse(
   // Send initial comment to confirm connection is alive
   res.write(":ok\n\n");
 
-  return new Promise<void>((resolve, reject) => {
+  const choices = await runChoices(res, ctx, release, (index, subprocess) =>
+    streamChoice(res, subprocess, ctx, index)
+  );
+
+  if (res.writableEnded) return;
+  // Choices cut off by stop / max_tokens have no usage to add
+  if (ctx.n > 1 && choices.some((choice) => choice?.result)) {
+    const usageChunk = {
+      id: `chatcmpl-${ctx.requestId}`,
+      object: "chat.completion.chunk",
+      created: Math.floor(Date.now() / 1000),
+      model: choices[0]?.model || modelRegistry.defaultModel.id,
+      choices: [],
+      usage: sumUsage(choices.map((choice) => choice?.result)),
+    };
+    res.write(`data: ${JSON.stringify(usageChunk)}\n\n`);
+  }
+  res.write("data: [DONE]\n\n");
+  res.end();
+}
+
+/**
+ * Stream one choice's output as chunks with the given choice index.
+ * Resolves with the CLI result (null when cut off by stop / max_tokens or
+ * failed). On failure an error chunk is written and the response ended.
+ */
+function streamChoice(
+  res: Response,
+  subprocess: ClaudeSubprocess,
+  ctx: ChoiceContext,
+  index: number
+): Promise<{ model: string; result: ClaudeCliResult | null }> {
+  const { cliInput, requestId, toolActivity } = ctx;
+
+  return new Promise((resolve, reject) => {
     let isFirst = true;
     let lastModel = "claude-sonnet-4";
     let isComplete = false;
+    let finalResult: ClaudeCliResult | null = null;
+    // Hold back <tool_call> blocks so they can be sent as delta.tool_calls
+    const toolParser = cliInput.hasClientTools ? new ToolCallStreamParser() : null;
+    const tools = new ToolActivityTracker();
+    const limiter = new OutputLimiter(ctx.limits);
 
-    // Handle actual client disconnect (response stream closed)
-    res.on("close", () => {
-      if (!isComplete) {
-        // Client disconnected before response completed - kill subprocess
-        subprocess.kill();
-      }
-      resolve();
-    });
+    const done = () => resolve({ model: lastModel, result: finalResult });
 
-    // Handle streaming content deltas
-    subprocess.on("content_delta", (event: ClaudeCliStreamEvent) => {
-      // Defensive: ensure text is always a string
-      const rawText = event.event.delta?.text;
-      const text = typeof rawText === "string" ? rawText : (rawText ? String(rawText) : "");
-      if (text && !res.writableEnded) {
+    // Report built-in tools as they start and finish
+    const writeToolActivity = (activities: ToolActivity[]) => {
+      if (toolActivity === "off" || res.writableEnded) return;
+      for (const activity of activities) {
+        if (toolActivity === "events") {
+          res.write(formatToolActivityEvent(activity, index));
+          continue;
+        }
         const chunk = {
           id: `chatcmpl-${requestId}`,
           object: "chat.completion.chunk",
           created: Math.floor(Date.now() / 1000),
           model: lastModel,
           choices: [{
-            index: 0,
+            index,
             delta: {
               role: isFirst ? "assistant" : undefined,
-              content: text,
+              tool_calls: [toToolCallDelta(activity, tools.indexOf(activity))],
             },
             finish_reason: null,
           }],
@@ -145,39 +781,134 @@ async function handleStreamingResponse(
         res.write(`data: ${JSON.stringify(chunk)}\n\n`);
         isFirst = false;
       }
+    };
+
+    const writeContent = (text: string, field: "content" | "reasoning_content" = "content") => {
+      const chunk = {
+        id: `chatcmpl-${requestId}`,
+        object: "chat.completion.chunk",
+        created: Math.floor(Date.now() / 1000),
+        model: lastModel,
+        choices: [{
+          index,
+          delta: {
+            role: isFirst ? "assistant" : undefined,
+            [field]: text,
+          },
+          finish_reason: null,
+        }],
+      };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      isFirst = false;
+    };
+
+    // Handle actual client disconnect (response stream closed)
+    res.on("close", () => {
+      if (!isComplete) {
+        // Client disconnected (or another choice failed) before this one completed
+        subprocess.kill();
+      }
+      done();
     });
 
-    // Handle final assistant message (for model name)
+    // Send held-back text, parsed tool calls and the choice's final chunk.
+    // result is missing when the output was cut off by stop or max_tokens.
+    const finishChoice = (result?: ClaudeCliResult) => {
+      isComplete = true;
+      if (res.writableEnded) return;
+
+      const rest = limiter.flush();
+      let finishReason: OpenAIFinishReason = limiter.finishReason || "stop";
+      // Output cut at max_tokens reports no usage, as when cut mid-stream
+      if (limiter.finishReason === "length") {
+        result = undefined;
+        finalResult = null;
+      }
+      const content = toolParser && rest ? toolParser.push(rest) : rest;
+      if (content) {
+        writeContent(content);
+      }
+      if (toolParser) {
+        const { content, toolCalls } = toolParser.finish();
+        if (content) {
+          writeContent(content);
+        }
+        if (toolCalls.length > 0) {
+          const indexOffset = toolActivity === "tool_calls" ? tools.size : 0;
+          const chunk = createToolCallsChunk(requestId, lastModel, toolCalls, isFirst, indexOffset, index);
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+          isFirst = false;
+          if (finishReason === "stop") finishReason = "tool_calls";
+        }
+      }
+
+      // Send final chunk with finish_reason (and usage data for a single choice)
+      const doneChunk = {
+        ...createDoneChunk(requestId, lastModel, finishReason, index),
+        ...(result && ctx.n === 1 ? { usage: sumUsage([result]) } : {}),
+      };
+      res.write(`data: ${JSON.stringify(doneChunk)}\n\n`);
+    };
+
+    // Handle streaming content deltas
+    subprocess.on("content_delta", (event: ClaudeCliStreamEvent) => {
+      if (isComplete) return;
+
+      // Thinking deltas are sent as reasoning_content
+      const thinking = event.event.delta?.thinking;
+      if (typeof thinking === "string" && thinking && !res.writableEnded) {
+        writeContent(thinking, "reasoning_content");
+        return;
+      }
+
+      // Defensive: ensure text is always a string
+      const rawText = event.event.delta?.text;
+      const text = typeof rawText === "string" ? rawText : (rawText ? String(rawText) : "");
+      if (text && !res.writableEnded) {
+        const limited = limiter.push(text);
+        const content = toolParser && limited ? toolParser.push(limited) : limited;
+        if (content) {
+          writeContent(content);
+        }
+        // Stop sequence or max_tokens reached: end the choice and the run
+        if (limiter.stopped) {
+          finishChoice();
+          subprocess.kill();
+          done();
+        }
+      }
+    });
+
+    // Handle final assistant message (for model name and tool runs)
     subprocess.on("assistant", (message: ClaudeCliAssistant) => {
       lastModel = message.message.model;
+      writeToolActivity(tools.onAssistant(message));
+    });
+
+    subprocess.on("user", (message: ClaudeCliUser) => {
+      writeToolActivity(tools.onUser(message));
     });
 
     subprocess.on("result", (result: ClaudeCliResult) => {
-      isComplete = true;
-      // Debug: log result type for diagnostics
       if (typeof result.result !== "string") {
-        console.error(`[Streaming] WARNING: result.result is not a string, type: ${typeof result.result}`);
+        ctx.log.warn("CLI result is not a string", { pid: subprocess.pid, type: typeof result.result });
       }
-      if (!res.writableEnded) {
-        // Send final chunk with finish_reason and usage data
-        const doneChunk = {
-          ...createDoneChunk(requestId, lastModel),
-          usage: {
-            prompt_tokens: result.usage?.input_tokens || 0,
-            completion_tokens: result.usage?.output_tokens || 0,
-            total_tokens:
-              (result.usage?.input_tokens || 0) + (result.usage?.output_tokens || 0),
-          },
-        };
-        res.write(`data: ${JSON.stringify(doneChunk)}\n\n`);
+      const cliError = classifyCliResult(result);
+      if (cliError && !res.writableEnded) {
+        isComplete = true;
+        ctx.log.warn("CLI error result", { pid: subprocess.pid, code: cliError.code, error: cliError.message });
+        writeCliStreamError(res, cliError);
         res.write("data: [DONE]\n\n");
         res.end();
+      } else if (!isComplete) {
+        finalResult = result;
+        finishChoice(result);
       }
-      resolve();
+      done();
     });
 
     subprocess.on("error", (error: Error) => {
-      console.error("[Streaming] Error:", error.message);
+      ctx.log.error("Subprocess error", { pid: subprocess.pid, error });
       if (!res.writableEnded) {
         res.write(
           `data: ${JSON.stringify({
@@ -186,148 +917,262 @@ async function handleStreamingResponse(
         );
         res.end();
       }
-      resolve();
+      done();
     });
 
     subprocess.on("close", (code: number | null) => {
-      // Subprocess exited - ensure response is closed
-      if (!res.writableEnded) {
-        if (code !== 0 && !isComplete) {
-          // Abnormal exit without result - send error
-          res.write(`data: ${JSON.stringify({
-            error: { message: `Process exited with code ${code}`, type: "server_error", code: null },
-          })}\n\n`);
-        }
+      // Abnormal exit without result - send error and end the response
+      if (!res.writableEnded && code !== 0 && !isComplete) {
+        res.write(`data: ${JSON.stringify({
+          error: { message: `Process exited with code ${code}`, type: "server_error", code: null },
+        })}\n\n`);
         res.write("data: [DONE]\n\n");
         res.end();
       }
-      resolve();
+      done();
     });
 
-    // Start the subprocess with OpenClaw workspace as cwd
-    const workspacePath = process.env.OPENCLAW_WORKSPACE || process.env.CLAWDBOT_WORKSPACE;
-    subprocess.start(cliInput.prompt, {
-      model: cliInput.model,
-      sessionId: cliInput.sessionId,
-      systemPrompt: cliInput.systemPrompt,
-      tools: cliInput.tools,
-      stdinMessages: cliInput.hasImages ? cliInput.stdinMessages : undefined,
-      cwd: workspacePath,
-    }).catch((err) => {
-      console.error("[Streaming] Subprocess start error:", err);
+    subprocess.start(cliInput.prompt, ctx.options).catch((err) => {
+      ctx.log.error("Subprocess start error", { error: err });
       reject(err);
     });
   });
 }
 
+interface CollectedChoice {
+  result: ClaudeCliResult | null;
+  error?: Error;
+  exitCode?: number | null;
+  reasoningContent?: string;
+  toolActivity: ToolActivity[];
+}
+
 /**
- * Handle non-streaming response
+ * Run one choice to completion, collecting its result, thinking and tool runs
  */
-async function handleNonStreamingResponse(
-  res: Response,
-  subprocess: ClaudeSubprocess,
-  cliInput: ReturnType<typeof openaiToCli>,
-  requestId: string
-): Promise<void> {
+function collectChoice(subprocess: ClaudeSubprocess, ctx: ChoiceContext): Promise<CollectedChoice> {
   return new Promise((resolve) => {
-    let finalResult: ClaudeCliResult | null = null;
+    const collected: CollectedChoice = { result: null, toolActivity: [] };
+    // The result message carries no thinking; collect it from assistant turns
+    const reasoningParts: string[] = [];
+    // Built-in tool runs are only tracked when they will be reported
+    const tools = ctx.toolActivity === "off" ? null : new ToolActivityTracker();
+
+    subprocess.on("assistant", (message: ClaudeCliAssistant) => {
+      reasoningParts.push(extractThinkingContent(message));
+      tools?.onAssistant(message);
+    });
+
+    subprocess.on("user", (message: ClaudeCliUser) => {
+      tools?.onUser(message);
+    });
 
     subprocess.on("result", (result: ClaudeCliResult) => {
-      finalResult = result;
+      collected.result = result;
     });
 
     subprocess.on("error", (error: Error) => {
-      console.error("[NonStreaming] Error:", error.message);
-      res.status(500).json({
-        error: {
-          message: error.message,
-          type: "server_error",
-          code: null,
-        },
-      });
-      resolve();
+      ctx.log.error("Subprocess error", { pid: subprocess.pid, error });
+      collected.error = error;
     });
 
     subprocess.on("close", (code: number | null) => {
-      if (finalResult) {
-        res.json(cliResultToOpenai(finalResult, requestId));
-      } else if (!res.headersSent) {
-        res.status(500).json({
-          error: {
-            message: `Claude CLI exited with code ${code} without response`,
-            type: "server_error",
-            code: null,
-          },
-        });
-      }
-      resolve();
+      collected.exitCode = code;
+      collected.reasoningContent = reasoningParts.filter(Boolean).join("\n\n") || undefined;
+      collected.toolActivity = tools?.summary() ?? [];
+      resolve(collected);
     });
 
-    // Start the subprocess with OpenClaw workspace as cwd
-    const workspacePath = process.env.OPENCLAW_WORKSPACE || process.env.CLAWDBOT_WORKSPACE;
     subprocess
-      .start(cliInput.prompt, {
-        model: cliInput.model,
-        sessionId: cliInput.sessionId,
-        systemPrompt: cliInput.systemPrompt,
-        tools: cliInput.tools,
-        stdinMessages: cliInput.hasImages ? cliInput.stdinMessages : undefined,
-        cwd: workspacePath,
-      })
-      .catch((error) => {
-        res.status(500).json({
-          error: {
-            message: error.message,
-            type: "server_error",
-            code: null,
-          },
-        });
-        resolve();
+      .start(ctx.cliInput.prompt, ctx.options)
+      .catch((error: Error) => {
+        collected.error = error;
+        resolve(collected);
       });
   });
 }
 
+/**
+ * Handle non-streaming response.
+ * With n > 1 every choice must succeed; the first failure is returned.
+ */
+async function handleNonStreamingResponse(
+  res: Response,
+  ctx: ChoiceContext,
+  release: ReleaseFn
+): Promise<void> {
+  const choices = await runChoices(res, ctx, release, (_index, subprocess) =>
+    collectChoice(subprocess, ctx)
+  );
+  if (res.headersSent || res.destroyed) return;
+
+  for (const choice of choices) {
+    if (choice.error) {
+      res.status(500).json({
+        error: {
+          message: choice.error.message,
+          type: "server_error",
+          code: null,
+        },
+      });
+      return;
+    }
+    const cliError = choice.result ? classifyCliResult(choice.result) : null;
+    if (cliError) {
+      ctx.log.warn("CLI error result", { code: cliError.code, error: cliError.message });
+      sendCliError(res, cliError);
+      return;
+    }
+    if (!choice.result) {
+      res.status(500).json({
+        error: {
+          message: `Claude CLI exited with code ${choice.exitCode} without response`,
+          type: "server_error",
+          code: null,
+        },
+      });
+      return;
+    }
+  }
+
+  const responses = choices.map((choice) =>
+    cliResultToOpenai(choice.result!, ctx.requestId, {
+      parseToolCalls: ctx.cliInput.hasClientTools,
+      reasoningContent: choice.reasoningContent,
+      toolActivity: choice.toolActivity,
+      limits: ctx.limits,
+    })
+  );
+  // Each response's usage already accounts for output cut at max_tokens
+  const promptTokens = responses.reduce((sum, response) => sum + response.usage.prompt_tokens, 0);
+  const completionTokens = responses.reduce((sum, response) => sum + response.usage.completion_tokens, 0);
+  res.json({
+    ...responses[0],
+    choices: responses.map((response, index) => ({ ...response.choices[0], index })),
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  });
+}
+
+/**
+ * Express middleware rejecting requests for models not in the registry
+ * (404, in the format of the endpoint being called)
+ */
+export function requireKnownModel(req: Request, res: Response, next: NextFunction): void {
+  const model = (req.body as { model?: unknown } | undefined)?.model;
+  const anthropic = req.path === "/v1/messages";
+  if (typeof model !== "string" || !model) {
+    const message = "model is required";
+    res.status(400).json(anthropic
+      ? { type: "error", error: { type: "invalid_request_error", message } }
+      : { error: { message, type: "invalid_request_error", param: "model", code: "missing_model" } });
+    return;
+  }
+  if (!modelRegistry.find(model)) {
+    const message = new UnknownModelError(model).message;
+    res.status(404).json(anthropic
+      ? { type: "error", error: { type: "not_found_error", message } }
+      : { error: { message, type: "invalid_request_error", param: "model", code: "model_not_found" } });
+    return;
+  }
+  next();
+}
+
+/**
+ * OpenAI model object for a registry model, with the registry details
+ */
+function toModelObject(model: ModelDefinition) {
+  return {
+    id: model.id,
+    object: "model",
+    owned_by: "anthropic",
+    created: Math.floor(Date.now() / 1000),
+    name: model.name,
+    aliases: model.aliases,
+    context_window: model.contextWindow,
+    max_output_tokens: model.maxOutputTokens,
+    capabilities: model.capabilities,
+  };
+}
+
 /**
  * Handle GET /v1/models
  *
- * Returns available models
+ * Returns the models in the registry
  */
 export function handleModels(_req: Request, res: Response): void {
   res.json({
     object: "list",
-    data: [
-      {
-        id: "claude-opus-4-6",
-        object: "model",
-        owned_by: "anthropic",
-        created: Math.floor(Date.now() / 1000),
-      },
-      {
-        id: "claude-opus-4",
-        object: "model",
-        owned_by: "anthropic",
-        created: Math.floor(Date.now() / 1000),
-      },
-      {
-        id: "claude-sonnet-4-5",
-        object: "model",
-        owned_by: "anthropic",
-        created: Math.floor(Date.now() / 1000),
-      },
-      {
-        id: "claude-sonnet-4",
-        object: "model",
-        owned_by: "anthropic",
-        created: Math.floor(Date.now() / 1000),
-      },
-      {
-        id: "claude-haiku-4",
-        object: "model",
-        owned_by: "anthropic",
-        created: Math.floor(Date.now() / 1000),
+    data: modelRegistry.list().map(toModelObject),
+  });
+}
+
+/**
+ * Handle GET /v1/models/{id} (ids, aliases and prefixed names resolve)
+ */
+export function handleModel(req: Request, res: Response): void {
+  const id = String(req.params[0]);
+  const model = modelRegistry.find(id);
+  if (!model) {
+    res.status(404).json({
+      error: {
+        message: new UnknownModelError(id).message,
+        type: "invalid_request_error",
+        param: "model",
+        code: "model_not_found",
       },
-    ],
+    });
+    return;
+  }
+  res.json(toModelObject(model));
+}
+
+// Queue and pool state, read at scrape time
+const queueActive = metrics.register(new Gauge("claude_proxy_queue_active", "CLI runs holding a request slot"));
+const queueWaiting = metrics.register(new Gauge("claude_proxy_queue_waiting", "Requests waiting for a slot"));
+const poolIdle = metrics.register(new Gauge("claude_proxy_pool_idle", "Warm CLI processes waiting in the pool"));
+metrics.addCollector(() => {
+  const queue = requestQueue.getStats();
+  queueActive.set({}, queue.active);
+  queueWaiting.set({}, queue.queued);
+  poolIdle.set({}, subprocessPool.getStats().idle);
+});
+
+/**
+ * Express middleware recording request count, latency and client
+ * disconnects. The model label is the registry id ("unknown" for other
+ * names, "none" without a model) to keep label values bounded.
+ */
+export function trackRequestMetrics(req: Request, res: Response, next: NextFunction): void {
+  const startedAt = Date.now();
+  res.once("close", () => {
+    // Set once a route matched; unmatched paths share one label
+    const route: string = req.route?.path ?? "unmatched";
+    const requested = (req.body as { model?: unknown } | undefined)?.model;
+    const model = typeof requested === "string"
+      ? modelRegistry.find(requested)?.id ?? "unknown"
+      : "none";
+
+    metrics.requests.inc({ route, model, status: String(res.statusCode) });
+    metrics.requestDuration.observe({ route, model }, (Date.now() - startedAt) / 1000);
+    if (!res.writableFinished) {
+      metrics.clientDisconnects.inc({ route });
+    }
   });
+  next();
+}
+
+/**
+ * Handle GET /metrics
+ *
+ * Prometheus text exposition format
+ */
+export function handleMetrics(_req: Request, res: Response): void {
+  res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  res.send(metrics.render());
 }
 
 /**
@@ -340,5 +1185,9 @@ export function handleHealth(_req: Request, res: Response): void {
     status: "ok",
     provider: "claude-code-cli",
     timestamp: new Date().toISOString(),
+    pool: subprocessPool.getStats(),
+    queue: requestQueue.getStats(),
+    cache: responseCache.enabled ? responseCache.getStats() : undefined,
+    workspaces: getWorkspaceNames(),
   });
 }
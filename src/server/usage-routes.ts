@@ -0,0 +1,126 @@
+/**
+ * Usage Route Handler
+ *
+ * Implements GET /v1/usage: usage ledger totals grouped by day, user
+ * (API key label) and model. Admin keys see every key; other keys see
+ * only their own usage.
+ */
+
+import type { Request, Response } from "express";
+import { usageLedger, type UsageGroupKey, type UsageTotals } from "../usage/ledger.js";
+import { modelRegistry } from "../models/registry.js";
+import type { UsageResponse, UsageTotalsObject } from "../types/usage.js";
+import { getKeyLabel, isAdminRequest } from "./auth.js";
+import { getRequestLog } from "./request-id.js";
+
+const GROUP_KEYS: UsageGroupKey[] = ["day", "user", "model"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Send an OpenAI-format error response
+ */
+function sendError(res: Response, status: number, message: string, type: string, code: string | null): void {
+  res.status(status).json({ error: { message, type, code } });
+}
+
+/**
+ * Parse a YYYY-MM-DD query parameter as the start of that UTC day (epoch ms)
+ */
+function parseDay(value: unknown): number | undefined | null {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Parse group_by ("day,user,model"), or null if it names an unknown field
+ */
+function parseGroupBy(value: unknown): UsageGroupKey[] | null {
+  if (value === undefined) return GROUP_KEYS;
+  if (typeof value !== "string") return null;
+  const keys = value.split(",").map((key) => key.trim()).filter(Boolean);
+  if (!keys.every((key): key is UsageGroupKey => (GROUP_KEYS as string[]).includes(key))) return null;
+  return Array.from(new Set(keys));
+}
+
+function toTotalsObject(totals: UsageTotals): UsageTotalsObject {
+  return {
+    requests: totals.requests,
+    errors: totals.errors,
+    input_tokens: totals.inputTokens,
+    output_tokens: totals.outputTokens,
+    cache_read_input_tokens: totals.cacheReadTokens,
+    cache_creation_input_tokens: totals.cacheCreationTokens,
+    duration_ms: totals.durationMs,
+    cost_usd: Math.round(totals.costUsd * 1e6) / 1e6,
+  };
+}
+
+/**
+ * Handle GET /v1/usage
+ *
+ * Query parameters (all optional):
+ * - start_date, end_date: UTC days (YYYY-MM-DD), both inclusive
+ * - group_by: comma list of day, user, model (default all three)
+ * - user: API key label; model: model id or alias
+ */
+export async function handleUsage(req: Request, res: Response): Promise<void> {
+  const { start_date, end_date, group_by, user, model } = req.query;
+
+  const from = parseDay(start_date);
+  const endDay = parseDay(end_date);
+  if (from === null || endDay === null) {
+    sendError(res, 400, "start_date and end_date must be dates in YYYY-MM-DD format", "invalid_request_error", "invalid_date");
+    return;
+  }
+  const groupBy = parseGroupBy(group_by);
+  if (!groupBy) {
+    sendError(res, 400, `group_by must be a comma separated list of ${GROUP_KEYS.join(", ")}`, "invalid_request_error", "invalid_group_by");
+    return;
+  }
+  if ((user !== undefined && typeof user !== "string") || (model !== undefined && typeof model !== "string")) {
+    sendError(res, 400, "user and model must be single values", "invalid_request_error", "invalid_filter");
+    return;
+  }
+
+  // Non-admin keys are limited to their own usage
+  let userFilter = user;
+  if (!isAdminRequest(res)) {
+    const label = getKeyLabel(res);
+    if (user !== undefined && user !== label) {
+      sendError(res, 403, "Only admin keys can read other keys' usage.", "invalid_request_error", "usage_forbidden");
+      return;
+    }
+    userFilter = label;
+  }
+
+  try {
+    const { buckets, totals } = await usageLedger.query({
+      from,
+      to: endDay === undefined ? undefined : endDay + DAY_MS,
+      user: userFilter,
+      model: model === undefined ? undefined : modelRegistry.find(model)?.id ?? model,
+      groupBy,
+    });
+
+    const response: UsageResponse = {
+      object: "list",
+      group_by: groupBy,
+      start_date: typeof start_date === "string" ? start_date : null,
+      end_date: typeof end_date === "string" ? end_date : null,
+      data: buckets.map((bucket) => ({
+        object: "usage.bucket",
+        day: bucket.day,
+        user: bucket.user,
+        model: bucket.model,
+        ...toTotalsObject(bucket),
+      })),
+      totals: toTotalsObject(totals),
+    };
+    res.json(response);
+  } catch (error) {
+    getRequestLog(res).error("Usage query error", { error });
+    sendError(res, 500, "Failed to read the usage ledger", "server_error", null);
+  }
+}
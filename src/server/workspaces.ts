@@ -0,0 +1,171 @@
+/**
+ * Workspace Profiles
+ *
+ * Named profiles that decide where and how the CLI runs for a request:
+ * the working directory root, which built-in tools are available, the
+ * permission mode and whether project settings / CLAUDE.md are loaded.
+ * Without a profile, requests keep the default behaviour (OpenClaw
+ * workspace or /tmp, all tools, permissions skipped).
+ *
+ * Clients pick a profile with the X-Workspace-Profile header or a model
+ * suffix ("sonnet@code-qa"), and may pick a subdirectory of the profile
+ * root with X-Workspace-Dir.
+ *
+ * Profiles file format (WORKSPACE_PROFILES_FILE, or inline WORKSPACE_PROFILES):
+ *   {
+ *     "profiles": {
+ *       "code-qa": { "cwd": "/srv/repos", "tools": ["Read", "Grep", "Glob"],
+ *                    "permissionMode": "default", "loadClaudeMd": true },
+ *       "dev": { "cwd": "/srv/sandbox", "permissionMode": "bypassPermissions" }
+ *     }
+ *   }
+ */
+
+import fs from "fs";
+import path from "path";
+import type { Request, Response } from "express";
+import { isWorkspaceAllowed } from "./auth.js";
+import type { PermissionMode } from "../subprocess/manager.js";
+
+export interface WorkspaceProfile {
+  /** Root directory; requests run here or in a subdirectory of it */
+  cwd: string;
+  /** Built-in tools available to the CLI; omitted = all */
+  tools?: string[];
+  permissionMode?: PermissionMode;
+  /** Load project settings and CLAUDE.md from the working directory */
+  loadClaudeMd?: boolean;
+}
+
+export interface WorkspaceSelection {
+  name: string;
+  cwd: string;
+  tools?: string[];
+  permissionMode: PermissionMode;
+  loadClaudeMd: boolean;
+}
+
+/**
+ * Raised when a request selects an unknown, forbidden or invalid workspace
+ */
+export class WorkspaceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 403,
+    public readonly code: "unknown_workspace" | "workspace_not_allowed" | "invalid_workspace_dir"
+  ) {
+    super(message);
+    this.name = "WorkspaceError";
+  }
+}
+
+export const WORKSPACE_HEADER = "x-workspace-profile";
+export const WORKSPACE_DIR_HEADER = "x-workspace-dir";
+
+const PERMISSION_MODES: PermissionMode[] = ["default", "acceptEdits", "bypassPermissions", "plan"];
+
+function loadProfiles(): Map<string, WorkspaceProfile> {
+  const sources: string[] = [];
+  if (process.env.WORKSPACE_PROFILES_FILE) {
+    sources.push(fs.readFileSync(process.env.WORKSPACE_PROFILES_FILE, "utf-8"));
+  }
+  if (process.env.WORKSPACE_PROFILES) {
+    sources.push(process.env.WORKSPACE_PROFILES);
+  }
+
+  const profiles = new Map<string, WorkspaceProfile>();
+  for (const source of sources) {
+    const parsed = JSON.parse(source) as { profiles?: Record<string, WorkspaceProfile> };
+    for (const [name, profile] of Object.entries(parsed.profiles || {})) {
+      if (!profile.cwd) {
+        throw new Error(`Workspace profile '${name}' has no cwd`);
+      }
+      if (profile.permissionMode && !PERMISSION_MODES.includes(profile.permissionMode)) {
+        throw new Error(`Workspace profile '${name}' has invalid permissionMode '${profile.permissionMode}'`);
+      }
+      profiles.set(name, { ...profile, cwd: path.resolve(profile.cwd) });
+    }
+  }
+  return profiles;
+}
+
+const profiles = loadProfiles();
+const DEFAULT_PROFILE = process.env.DEFAULT_WORKSPACE_PROFILE || undefined;
+
+/**
+ * Names of the configured profiles
+ */
+export function getWorkspaceNames(): string[] {
+  return Array.from(profiles.keys());
+}
+
+/**
+ * Split a "model@profile" string into model and profile name
+ */
+export function splitModelWorkspace(model: string): { model: string; workspace?: string } {
+  const at = model.lastIndexOf("@");
+  if (at <= 0) return { model };
+  return { model: model.slice(0, at), workspace: model.slice(at + 1) || undefined };
+}
+
+/**
+ * Resolve a requested subdirectory inside the profile root
+ */
+function resolveDir(root: string, requested: string | undefined): string {
+  if (!requested) return root;
+
+  const resolved = path.resolve(root, requested);
+  let realRoot: string;
+  let dir: string;
+  try {
+    if (!fs.statSync(resolved, { throwIfNoEntry: false })?.isDirectory()) {
+      throw new WorkspaceError(`Workspace directory '${requested}' does not exist`, 400, "invalid_workspace_dir");
+    }
+    // Compare real paths so symlinks can't lead outside the root
+    realRoot = fs.realpathSync(root);
+    dir = fs.realpathSync(resolved);
+  } catch (error) {
+    if (error instanceof WorkspaceError) throw error;
+    // ENAMETOOLONG, EACCES, ENOTDIR, ... from client-supplied paths
+    const code = (error as NodeJS.ErrnoException).code || "error";
+    throw new WorkspaceError(`Workspace directory '${requested}' is not usable (${code})`, 400, "invalid_workspace_dir");
+  }
+  if (dir !== realRoot && !dir.startsWith(realRoot + path.sep)) {
+    throw new WorkspaceError(`Workspace directory '${requested}' is outside the profile root`, 400, "invalid_workspace_dir");
+  }
+  return dir;
+}
+
+/**
+ * Resolve the workspace for a request from the header, the model suffix
+ * or DEFAULT_WORKSPACE_PROFILE. Returns undefined for the default
+ * (profile-less) behaviour. Throws WorkspaceError.
+ */
+export function resolveWorkspace(req: Request, res: Response): WorkspaceSelection | undefined {
+  const model = (req.body as { model?: unknown } | undefined)?.model;
+  const name = req.get(WORKSPACE_HEADER)
+    || (typeof model === "string" ? splitModelWorkspace(model).workspace : undefined)
+    || DEFAULT_PROFILE;
+
+  if (!isWorkspaceAllowed(res, name)) {
+    throw new WorkspaceError(
+      name ? `API key is not allowed to use workspace '${name}'` : "API key requires a workspace profile",
+      403,
+      "workspace_not_allowed"
+    );
+  }
+  if (!name) return undefined;
+
+  const profile = profiles.get(name);
+  if (!profile) {
+    throw new WorkspaceError(`Unknown workspace profile '${name}'`, 400, "unknown_workspace");
+  }
+
+  return {
+    name,
+    cwd: resolveDir(profile.cwd, req.get(WORKSPACE_DIR_HEADER)),
+    tools: profile.tools,
+    permissionMode: profile.permissionMode || "default",
+    loadClaudeMd: profile.loadClaudeMd === true,
+  };
+}
@@ -8,6 +8,9 @@
 import { v4 as uuidv4 } from "uuid";
 import fs from "fs/promises";
 import path from "path";
+import { logger } from "../logging/logger.js";
+
+const log = logger.child({ component: "SessionManager" });
 
 export interface SessionMapping {
   clawdbotId: string;
@@ -15,6 +18,8 @@ export interface SessionMapping {
   createdAt: number;
   lastUsedAt: number;
   model: string;
+  /** Fingerprints of the conversation turns the CLI session already holds */
+  messageHashes?: string[];
 }
 
 const SESSION_FILE = path.join(
@@ -40,7 +45,7 @@ class SessionManager {
       const parsed = JSON.parse(data) as Record<string, SessionMapping>;
       this.sessions = new Map(Object.entries(parsed));
       this.loaded = true;
-      console.log(`[SessionManager] Loaded ${this.sessions.size} sessions`);
+      log.info("Loaded sessions", { count: this.sessions.size });
     } catch {
       // File doesn't exist or is invalid, start fresh
       this.sessions = new Map();
@@ -80,18 +85,41 @@ class SessionManager {
     };
 
     this.sessions.set(clawdbotId, mapping);
-    console.log(
-      `[SessionManager] Created session: ${clawdbotId} -> ${claudeSessionId}`
-    );
+    log.info("Created session", { sessionKey: clawdbotId, claudeSessionId });
 
     // Fire and forget save
     this.save().catch((err) =>
-      console.error("[SessionManager] Save error:", err)
+      log.error("Save error", { error: err })
     );
 
     return claudeSessionId;
   }
 
+  /**
+   * Replace the Claude session for a conversation with a fresh one.
+   * Used when the client's history no longer matches the stored session.
+   */
+  reset(clawdbotId: string, model: string = "sonnet"): string {
+    this.sessions.delete(clawdbotId);
+    return this.getOrCreate(clawdbotId, model);
+  }
+
+  /**
+   * Record the state of a session after a completed turn
+   */
+  update(
+    clawdbotId: string,
+    changes: Partial<Pick<SessionMapping, "claudeSessionId" | "messageHashes">>
+  ): void {
+    const existing = this.sessions.get(clawdbotId);
+    if (!existing) return;
+
+    Object.assign(existing, changes, { lastUsedAt: Date.now() });
+    this.save().catch((err) =>
+      log.error("Save error", { error: err })
+    );
+  }
+
   /**
    * Get existing session if it exists
    */
@@ -106,7 +134,7 @@ class SessionManager {
     const deleted = this.sessions.delete(clawdbotId);
     if (deleted) {
       this.save().catch((err) =>
-        console.error("[SessionManager] Save error:", err)
+        log.error("Save error", { error: err })
       );
     }
     return deleted;
@@ -127,9 +155,9 @@ class SessionManager {
     }
 
     if (removed > 0) {
-      console.log(`[SessionManager] Cleaned up ${removed} expired sessions`);
+      log.info("Cleaned up expired sessions", { removed });
       this.save().catch((err) =>
-        console.error("[SessionManager] Save error:", err)
+        log.error("Save error", { error: err })
       );
     }
 
@@ -156,10 +184,10 @@ export const sessionManager = new SessionManager();
 
 // Initialize on module load
 sessionManager.load().catch((err) =>
-  console.error("[SessionManager] Load error:", err)
+  log.error("Load error", { error: err })
 );
 
 // Periodic cleanup every hour
 setInterval(() => {
   sessionManager.cleanup();
-}, 60 * 60 * 1000);
+}, 60 * 60 * 1000).unref();
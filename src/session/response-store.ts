@@ -0,0 +1,88 @@
+/**
+ * Response Store
+ *
+ * Keeps the conversation behind each stored /v1/responses result so
+ * follow-up requests can pass previous_response_id instead of resending
+ * the whole history. Held in memory only.
+ */
+
+import type { OpenAIChatMessage } from "../types/openai.js";
+
+export interface StoredResponse {
+  id: string;
+  /** Conversation up to and including this response's output (no instructions) */
+  messages: OpenAIChatMessage[];
+  /** API key label that created it; undefined when auth is disabled */
+  owner?: string;
+  createdAt: number;
+}
+
+// Stored responses expire after 24 hours, matching session TTL
+const RESPONSE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on stored responses; oldest are evicted first
+const MAX_STORED_RESPONSES = 1000;
+
+class ResponseStore {
+  private responses: Map<string, StoredResponse> = new Map();
+
+  /**
+   * Store the conversation for a response
+   */
+  save(id: string, messages: OpenAIChatMessage[], owner?: string): void {
+    this.responses.set(id, { id, messages, owner, createdAt: Date.now() });
+
+    // Map iterates in insertion order, so the first key is the oldest
+    while (this.responses.size > MAX_STORED_RESPONSES) {
+      const oldest = this.responses.keys().next().value;
+      if (oldest === undefined) break;
+      this.responses.delete(oldest);
+    }
+  }
+
+  /**
+   * Get a stored response if it exists, has not expired and belongs to
+   * the owner (API key label)
+   */
+  get(id: string, owner: string | undefined): StoredResponse | undefined {
+    const stored = this.responses.get(id);
+    if (!stored || stored.owner !== owner) return undefined;
+    if (stored.createdAt < Date.now() - RESPONSE_TTL_MS) {
+      this.responses.delete(id);
+      return undefined;
+    }
+    return stored;
+  }
+
+  /**
+   * Clean up expired responses
+   */
+  cleanup(): number {
+    const cutoff = Date.now() - RESPONSE_TTL_MS;
+    let removed = 0;
+
+    for (const [key, stored] of this.responses) {
+      if (stored.createdAt < cutoff) {
+        this.responses.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Get stored response count
+   */
+  get size(): number {
+    return this.responses.size;
+  }
+}
+
+// Singleton instance
+export const responseStore = new ResponseStore();
+
+// Periodic cleanup every hour
+setInterval(() => {
+  responseStore.cleanup();
+}, 60 * 60 * 1000).unref();
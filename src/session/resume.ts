@@ -0,0 +1,144 @@
+/**
+ * Session Resume
+ *
+ * Opt-in mode that maps a conversation key to a persisted Claude CLI
+ * session. When the client's history matches what the session already
+ * holds, only the new turn is sent and the CLI resumes the session;
+ * otherwise the session is reset and the full history replayed.
+ */
+
+import { createHash } from "crypto";
+import { sessionManager } from "./manager.js";
+import { assistantText, extractContent } from "../adapter/openai-to-cli.js";
+import type { OpenAIChatMessage } from "../types/openai.js";
+import { logger } from "../logging/logger.js";
+
+/** Header carrying the client's conversation key */
+export const CONVERSATION_HEADER = "x-conversation-id";
+
+// When enabled, the OpenAI `user` field is also used as a conversation key
+const RESUME_BY_USER = process.env.SESSION_RESUME === "true";
+
+export interface SessionPlan {
+  key: string;
+  claudeSessionId: string;
+  /** Resume an existing CLI session (false: create it with --session-id) */
+  resume: boolean;
+  /** Messages to send: system messages plus the turns the session lacks */
+  messages: OpenAIChatMessage[];
+  /** Fingerprints of the client's conversation (without the coming reply) */
+  messageHashes: string[];
+}
+
+// Conversations with a run in progress; concurrent requests fall back to replay
+const inFlight = new Set<string>();
+
+/**
+ * Pick the conversation key for a request, if session mode applies.
+ * Keys are namespaced by the API key label (undefined when auth is
+ * disabled), so one key can never resume or reset another's session.
+ */
+export function getConversationKey(
+  headerValue: string | undefined,
+  user: string | undefined,
+  keyLabel: string | undefined
+): string | undefined {
+  const conversation = headerValue || (RESUME_BY_USER && user ? user : undefined);
+  if (!conversation) return undefined;
+  // The label is encoded so the first ":" always ends it
+  return keyLabel === undefined ? conversation : `${encodeURIComponent(keyLabel)}:${conversation}`;
+}
+
+function isSystemMessage(msg: OpenAIChatMessage): boolean {
+  return msg.role === "system" || msg.role === "developer";
+}
+
+/**
+ * Fingerprint a conversation turn. Whitespace is ignored so that clients
+ * that trim or re-wrap echoed assistant text still match.
+ */
+function hashMessage(role: string, text: string): string {
+  return createHash("sha256")
+    .update(role)
+    .update("\0")
+    .update(text.replace(/\s+/g, ""))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function hashChatMessage(msg: OpenAIChatMessage): string {
+  const text = msg.role === "assistant" ? assistantText(msg) : extractContent(msg.content);
+  return hashMessage(msg.role, text);
+}
+
+/**
+ * Decide how to run a request for a conversation key.
+ * Returns null when the conversation is busy and should run stateless.
+ */
+export function planSession(
+  key: string,
+  messages: OpenAIChatMessage[],
+  model: string
+): SessionPlan | null {
+  if (inFlight.has(key)) {
+    logger.warn("Conversation is busy, replaying history without a session", { sessionKey: key });
+    return null;
+  }
+
+  const systemMessages = messages.filter(isSystemMessage);
+  const turns = messages.filter((msg) => !isSystemMessage(msg));
+  const hashes = turns.map(hashChatMessage);
+
+  const existing = sessionManager.get(key);
+  const held = existing?.messageHashes ?? [];
+  const newTurns = turns.slice(held.length);
+  const continues =
+    held.length > 0 &&
+    held.length < turns.length &&
+    held.every((hash, i) => hash === hashes[i]) &&
+    newTurns.every((msg) => msg.role !== "assistant");
+
+  let claudeSessionId: string;
+  if (continues) {
+    claudeSessionId = sessionManager.getOrCreate(key, model);
+  } else {
+    if (held.length > 0) {
+      logger.warn("History diverged from session, starting a new one", { sessionKey: key });
+    }
+    claudeSessionId = existing
+      ? sessionManager.reset(key, model)
+      : sessionManager.getOrCreate(key, model);
+  }
+
+  inFlight.add(key);
+  return {
+    key,
+    claudeSessionId,
+    resume: continues,
+    messages: continues ? [...systemMessages, ...newTurns] : messages,
+    messageHashes: hashes,
+  };
+}
+
+/**
+ * Record a completed turn so the next request can resume from it
+ */
+export function commitSession(
+  plan: SessionPlan,
+  replyText: string,
+  cliSessionId: string | undefined
+): void {
+  inFlight.delete(plan.key);
+  sessionManager.update(plan.key, {
+    claudeSessionId: cliSessionId || plan.claudeSessionId,
+    messageHashes: [...plan.messageHashes, hashMessage("assistant", replyText)],
+  });
+}
+
+/**
+ * Drop a session whose run failed, so the next request starts clean
+ */
+export function abandonSession(plan: SessionPlan): void {
+  inFlight.delete(plan.key);
+  sessionManager.delete(plan.key);
+}
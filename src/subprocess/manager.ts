@@ -12,24 +12,49 @@ import path from "path";
 import type {
   ClaudeCliMessage,
   ClaudeCliAssistant,
+  ClaudeCliUser,
   ClaudeCliResult,
   ClaudeCliStreamEvent,
 } from "../types/claude-cli.js";
-import { isAssistantMessage, isResultMessage, isContentDelta } from "../types/claude-cli.js";
-import type { ClaudeModel } from "../adapter/openai-to-cli.js";
+import { isAssistantMessage, isUserMessage, isResultMessage, isContentDelta } from "../types/claude-cli.js";
+import type { CliStreamMessage } from "../adapter/openai-to-cli.js";
+import { classifyCliResult } from "../adapter/cli-errors.js";
+import { metrics } from "../metrics/metrics.js";
+import { logger, previewContent, type Logger } from "../logging/logger.js";
+import { usageLedger, type UsageContext } from "../usage/ledger.js";
+
+export type PermissionMode = "default" | "acceptEdits" | "bypassPermissions" | "plan";
 
 export interface SubprocessOptions {
-  model: ClaudeModel;
+  /** CLI --model argument: an alias or a full model id */
+  model: string;
   sessionId?: string;
+  resumeSession?: boolean;
   systemPrompt?: string;
   tools?: string[];
   cwd?: string;
   timeout?: number;
+  /** Extended thinking budget, passed to the CLI as MAX_THINKING_TOKENS */
+  thinkingBudget?: number;
+  /** CLI permission mode; default skips permission checks entirely */
+  permissionMode?: PermissionMode;
+  /** Load project settings and CLAUDE.md (false = user settings only) */
+  loadClaudeMd?: boolean;
 }
 
+/** Start options: spawn options plus NDJSON input for stream-json mode */
+export type SubprocessStartOptions = SubprocessOptions & {
+  stdinMessages?: string[];
+  /** Request logger; subprocess lines add the PID to it */
+  log?: Logger;
+  /** Who the run is accounted to in the usage ledger */
+  usage?: UsageContext;
+};
+
 export interface SubprocessEvents {
   message: (msg: ClaudeCliMessage) => void;
   assistant: (msg: ClaudeCliAssistant) => void;
+  user: (msg: ClaudeCliUser) => void;
   result: (result: ClaudeCliResult) => void;
   error: (error: Error) => void;
   close: (code: number | null) => void;
@@ -37,24 +62,20 @@ export interface SubprocessEvents {
 }
 
 const DEFAULT_TIMEOUT = 300000; // 5 minutes
-
-// Debug logging controlled by environment variable
-const DEBUG = process.env.DEBUG_SUBPROCESS === "true";
+// Longer system prompts go to stdin instead of --append-system-prompt (ENAMETOOLONG)
+const MAX_SYSTEM_PROMPT_ARG = 8000;
 
 export class ClaudeSubprocess extends EventEmitter {
   private process: ChildProcess | null = null;
   private buffer: string = "";
   private timeoutId: NodeJS.Timeout | null = null;
   private isKilled: boolean = false;
-
-  /**
-   * Conditional debug logging
-   */
-  private debug(...args: any[]): void {
-    if (DEBUG) {
-      console.error(...args);
-    }
-  }
+  private log: Logger = logger;
+  // Metrics: CLI model label, when input was written, whether a token arrived
+  private model: string = "";
+  private startedAt: number | null = null;
+  private sawFirstToken: boolean = false;
+  private usage: UsageContext = {};
 
   /**
    * Start the Claude CLI subprocess.
@@ -62,95 +83,67 @@ export class ClaudeSubprocess extends EventEmitter {
    * Two modes:
    * - Text mode (stdinMessages omitted): prompt passed via stdin
    * - Stream-JSON mode (stdinMessages provided): NDJSON piped via stdin (supports images)
+   *
+   * If the process was prespawned (warm pool), only the input is written.
    */
   async start(
     prompt: string,
-    options: SubprocessOptions & { stdinMessages?: string[] }
+    options: SubprocessStartOptions
   ): Promise<void> {
-    const useStreamInput = !!options.stdinMessages?.length;
-    const args = this.buildArgs(options, useStreamInput);
+    const prespawned = this.process !== null;
+    const useStreamInput = prespawned || !!options.stdinMessages?.length;
     const timeout = options.timeout || DEFAULT_TIMEOUT;
 
     return new Promise((resolve, reject) => {
       try {
-        // Use spawn() for security - no shell interpretation
-        this.process = spawn("claude", args, {
-          cwd: options.cwd || "/tmp", // Use neutral dir to avoid loading CLAUDE.md
-          env: { ...process.env },
-          stdio: ["pipe", "pipe", "pipe"],
-        });
+        if (!prespawned) {
+          this.spawnProcess(this.buildArgs(options, useStreamInput), options, reject);
+        }
+        const child = this.process!;
+        this.log = (options.log || logger).child({ pid: child.pid });
+
+        this.startedAt = Date.now();
+        this.usage = options.usage || {};
 
         // Set timeout
         this.timeoutId = setTimeout(() => {
           if (!this.isKilled) {
             this.isKilled = true;
+            metrics.subprocessTimeouts.inc({ model: this.model });
             this.process?.kill("SIGTERM");
             this.emit("error", new Error(`Request timed out after ${timeout}ms`));
           }
         }, timeout);
 
-        // Handle spawn errors (e.g., claude not found)
-        this.process.on("error", (err) => {
-          this.clearTimeout();
-          if (err.message.includes("ENOENT")) {
-            reject(
-              new Error(
-                "Claude CLI not found. Install with: npm install -g @anthropic-ai/claude-code"
-              )
-            );
-          } else {
-            reject(err);
-          }
-        });
-
         // Write to stdin based on mode
-        if (useStreamInput && options.stdinMessages) {
-          // Stream-JSON mode: pipe NDJSON messages (supports images)
-          for (const line of options.stdinMessages) {
-            this.process.stdin?.write(line + "\n");
+        if (prespawned) {
+          // Warm process: args carry no system prompt, so inline it
+          for (const line of this.inlineSystemPrompt(prompt, options)) {
+            child.stdin?.write(line + "\n");
+          }
+        } else if (useStreamInput && options.stdinMessages) {
+          // Stream-JSON mode: pipe NDJSON messages (supports images).
+          // A system prompt too long for the CLI arg leads the first message.
+          const lines = options.systemPrompt && options.systemPrompt.length > MAX_SYSTEM_PROMPT_ARG
+            ? this.inlineSystemPrompt(prompt, options)
+            : options.stdinMessages;
+          for (const line of lines) {
+            child.stdin?.write(line + "\n");
           }
         } else {
           // Text mode: write prompt to stdin
           let fullPrompt = prompt;
 
           // If system prompt is too long for CLI arg, prepend it to stdin
-          if (options.systemPrompt && options.systemPrompt.length > 8000) {
+          if (options.systemPrompt && options.systemPrompt.length > MAX_SYSTEM_PROMPT_ARG) {
             fullPrompt = `<system>\n${options.systemPrompt}\n</system>\n\n${prompt}`;
-            this.debug(`[Subprocess] System prompt too long (${options.systemPrompt.length} chars), prepending to stdin`);
+            this.log.debug("System prompt too long for CLI arg, prepending to stdin", { chars: options.systemPrompt.length });
           }
 
-          this.debug(`[Subprocess] Writing ${fullPrompt.length} chars to stdin`);
-          this.process.stdin?.write(fullPrompt);
+          this.log.debug("Writing prompt to stdin", { chars: fullPrompt.length });
+          child.stdin?.write(fullPrompt);
         }
-        this.process.stdin?.end();
-
-        this.debug(`[Subprocess] Process spawned with PID: ${this.process.pid} (mode: ${useStreamInput ? "stream-json" : "text"})`);
-
-        // Parse JSON stream from stdout
-        this.process.stdout?.on("data", (chunk: Buffer) => {
-          const data = chunk.toString();
-          this.debug(`[Subprocess] Received ${data.length} bytes of stdout`);
-          this.buffer += data;
-          this.processBuffer();
-        });
-
-        // Capture stderr for debugging
-        this.process.stderr?.on("data", (chunk: Buffer) => {
-          const errorText = chunk.toString().trim();
-          if (errorText) {
-            this.debug("[Subprocess stderr]:", errorText.slice(0, 200));
-          }
-        });
-
-        // Handle process close
-        this.process.on("close", (code) => {
-          this.debug(`[Subprocess] Process closed with code: ${code}`);
-          this.clearTimeout();
-          if (this.buffer.trim()) {
-            this.processBuffer();
-          }
-          this.emit("close", code);
-        });
+        child.stdin?.end();
 
         resolve();
       } catch (err) {
@@ -160,6 +153,130 @@ export class ClaudeSubprocess extends EventEmitter {
     });
   }
 
+  /**
+   * Spawn a process in stream-json input mode that waits for its input.
+   * A later start() call writes the request and closes stdin.
+   * Session and system prompt options are ignored here; start() inlines
+   * the system prompt instead.
+   */
+  prespawn(options: SubprocessOptions): void {
+    const args = this.buildArgs(
+      { ...options, systemPrompt: undefined, sessionId: undefined },
+      true
+    );
+    this.spawnProcess(args, options, (err) => {
+      this.log.debug("Prespawn error", { error: err });
+    });
+  }
+
+  /**
+   * Spawn the CLI and wire up output parsing
+   */
+  private spawnProcess(
+    args: string[],
+    options: SubprocessOptions,
+    onSpawnError: (err: Error) => void
+  ): void {
+    const env = { ...process.env };
+    if (options.thinkingBudget) {
+      env.MAX_THINKING_TOKENS = String(options.thinkingBudget);
+    }
+
+    // Use spawn() for security - no shell interpretation
+    this.process = spawn("claude", args, {
+      cwd: options.cwd || "/tmp", // Use neutral dir to avoid loading CLAUDE.md
+      env,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.model = options.model;
+
+    // Count the process as live until it closes or fails to spawn
+    let live = true;
+    metrics.subprocesses.inc();
+    const ended = () => {
+      if (live) metrics.subprocesses.dec();
+      live = false;
+    };
+
+    // Handle spawn errors (e.g., claude not found)
+    this.process.on("error", (err) => {
+      ended();
+      this.clearTimeout();
+      if (err.message.includes("ENOENT")) {
+        onSpawnError(
+          new Error(
+            "Claude CLI not found. Install with: npm install -g @anthropic-ai/claude-code"
+          )
+        );
+      } else {
+        onSpawnError(err);
+      }
+    });
+
+    this.log = logger.child({ pid: this.process.pid });
+    this.log.debug("Process spawned", {
+      model: options.model,
+      mode: args.includes("--input-format") ? "stream-json" : "text",
+    });
+
+    // Parse JSON stream from stdout
+    this.process.stdout?.on("data", (chunk: Buffer) => {
+      const data = chunk.toString();
+      this.log.debug("Received stdout", { bytes: data.length });
+      this.buffer += data;
+      this.processBuffer();
+    });
+
+    // Capture stderr for debugging
+    this.process.stderr?.on("data", (chunk: Buffer) => {
+      const errorText = chunk.toString().trim();
+      if (errorText) {
+        this.log.debug("CLI stderr", { text: errorText.slice(0, 200) });
+      }
+    });
+
+    // Handle process close
+    this.process.on("close", (code) => {
+      this.log.debug("Process closed", { code });
+      ended();
+      this.clearTimeout();
+      if (this.buffer.trim()) {
+        this.processBuffer();
+      }
+      this.emit("close", code);
+    });
+  }
+
+  /**
+   * Build stream-json input with the system prompt as a leading
+   * <system> block, for processes spawned without --append-system-prompt.
+   */
+  private inlineSystemPrompt(
+    prompt: string,
+    options: SubprocessStartOptions
+  ): string[] {
+    const systemBlocks = options.systemPrompt
+      ? [{ type: "text" as const, text: `<system>\n${options.systemPrompt}\n</system>` }]
+      : [];
+
+    if (options.stdinMessages?.length) {
+      const [first, ...rest] = options.stdinMessages.map(
+        (line) => JSON.parse(line) as CliStreamMessage
+      );
+      first.message.content = [...systemBlocks, ...first.message.content];
+      return [first, ...rest].map((msg) => JSON.stringify(msg));
+    }
+
+    const message: CliStreamMessage = {
+      type: "user",
+      message: {
+        role: "user",
+        content: [...systemBlocks, { type: "text", text: prompt }],
+      },
+    };
+    return [JSON.stringify(message)];
+  }
+
   /**
    * Build CLI arguments array.
    * Prompt is passed via stdin (text mode) or as NDJSON (stream-json mode).
@@ -172,11 +289,18 @@ export class ClaudeSubprocess extends EventEmitter {
       "--verbose", // Required for stream-json
       "--include-partial-messages", // Enable streaming chunks
       "--model",
-      options.model, // Model alias (opus/sonnet/haiku)
-      "--no-session-persistence", // Don't save sessions
-      "--dangerously-skip-permissions", // Allow file operations (running as service)
+      options.model, // Alias (opus/sonnet/haiku) or full model id
     ];
 
+    // Workspace profiles may run with permission checks; otherwise allow
+    // file operations (running as service)
+    const permissionMode = options.permissionMode || "bypassPermissions";
+    if (permissionMode === "bypassPermissions") {
+      args.push("--dangerously-skip-permissions");
+    } else {
+      args.push("--permission-mode", permissionMode);
+    }
+
     // Add stream-json input format when images are present
     if (streamInput) {
       args.push("--input-format", "stream-json");
@@ -186,24 +310,35 @@ export class ClaudeSubprocess extends EventEmitter {
     // Only use --append-system-prompt for short system prompts to avoid ENAMETOOLONG
     // Long system prompts (>8000 chars) are prepended to stdin instead
     if (options.systemPrompt) {
-      this.debug(`[Subprocess] System prompt: ${options.systemPrompt.length} chars`);
-      if (options.systemPrompt.length <= 8000) {
-        this.debug(`[Subprocess] Adding system prompt via --append-system-prompt (short enough for CLI)`);
+      const viaArg = options.systemPrompt.length <= MAX_SYSTEM_PROMPT_ARG;
+      this.log.debug("System prompt", { chars: options.systemPrompt.length, via: viaArg ? "arg" : "stdin" });
+      if (viaArg) {
         args.push("--append-system-prompt", options.systemPrompt);
-      } else {
-        this.debug(`[Subprocess] System prompt too long for CLI arg, will prepend to stdin`);
       }
     } else {
-      this.debug("[Subprocess] NO system prompt provided");
+      this.log.debug("No system prompt provided");
     }
 
-    // Add tool restrictions if provided
-    if (options.tools && options.tools.length > 0) {
+    // Add tool restrictions if provided (an empty list disables all tools).
+    // With permission checks on, listed tools are also pre-approved.
+    if (options.tools) {
       args.push("--tools", options.tools.join(","));
+      if (permissionMode !== "bypassPermissions" && options.tools.length > 0) {
+        args.push("--allowedTools", options.tools.join(","));
+      }
+    }
+
+    if (options.loadClaudeMd === false) {
+      args.push("--setting-sources", "user");
     }
 
-    if (options.sessionId) {
+    // Sessions are only persisted when the caller opted in to resume mode
+    if (options.sessionId && options.resumeSession) {
+      args.push("--resume", options.sessionId);
+    } else if (options.sessionId) {
       args.push("--session-id", options.sessionId);
+    } else {
+      args.push("--no-session-persistence");
     }
 
     // Prompt is passed via stdin to avoid E2BIG / ENAMETOOLONG errors
@@ -227,13 +362,25 @@ export class ClaudeSubprocess extends EventEmitter {
         this.emit("message", message);
 
         if (isContentDelta(message)) {
+          if (!this.sawFirstToken && this.startedAt !== null) {
+            this.sawFirstToken = true;
+            metrics.timeToFirstToken.observe({ model: this.model }, (Date.now() - this.startedAt) / 1000);
+          }
           // Emit content delta for streaming
           this.emit("content_delta", message as ClaudeCliStreamEvent);
         } else if (isAssistantMessage(message)) {
-          this.debug(`[Response] Assistant message:`, JSON.stringify(message.message.content));
+          if (this.log.isEnabled("debug")) {
+            this.log.debug("Assistant message", { content: previewContent(JSON.stringify(message.message.content)) });
+          }
           this.emit("assistant", message);
+        } else if (isUserMessage(message)) {
+          // Tool results the CLI feeds back to the model
+          this.emit("user", message);
         } else if (isResultMessage(message)) {
-          this.debug(`[Response] Result:`, message.result);
+          this.log.debug("Result", {
+            result: typeof message.result === "string" ? previewContent(message.result) : typeof message.result,
+          });
+          this.recordResult(message);
           this.emit("result", message);
         }
       } catch {
@@ -243,6 +390,30 @@ export class ClaudeSubprocess extends EventEmitter {
     }
   }
 
+  /**
+   * Record token usage, cost and CLI errors of a result in the metrics
+   * and the usage ledger
+   */
+  private recordResult(result: ClaudeCliResult): void {
+    const model = this.model;
+    const usage = result.usage;
+    if (usage) {
+      metrics.tokens.inc({ model, type: "input" }, usage.input_tokens || 0);
+      metrics.tokens.inc({ model, type: "output" }, usage.output_tokens || 0);
+      metrics.tokens.inc({ model, type: "cache_read" }, usage.cache_read_input_tokens || 0);
+      metrics.tokens.inc({ model, type: "cache_creation" }, usage.cache_creation_input_tokens || 0);
+    }
+    metrics.cost.inc({ model }, result.total_cost_usd || 0);
+
+    const cliError = classifyCliResult(result);
+    if (cliError) {
+      metrics.cliErrors.inc({ model, code: cliError.code });
+    }
+
+    const durationMs = this.startedAt ? Date.now() - this.startedAt : result.duration_ms || 0;
+    usageLedger.record(usageLedger.toRecord(result, this.usage, model, durationMs));
+  }
+
   /**
    * Clear the timeout timer
    */
@@ -264,6 +435,13 @@ export class ClaudeSubprocess extends EventEmitter {
     }
   }
 
+  /**
+   * PID of the CLI process, once spawned
+   */
+  get pid(): number | undefined {
+    return this.process?.pid;
+  }
+
   /**
    * Check if the process is still running
    */
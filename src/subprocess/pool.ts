@@ -0,0 +1,259 @@
+/**
+ * Warm Subprocess Pool
+ *
+ * Keeps prespawned Claude CLI processes idle in stream-json input mode so
+ * requests skip CLI startup. A CLI process holds a single conversation,
+ * so each warm process serves exactly one request and is replaced after
+ * checkout. Processes are keyed by the spawn options that must match
+ * (model, cwd, tools, permission mode, settings sources).
+ *
+ * Configuration (environment):
+ * - SUBPROCESS_POOL_MIN: warm processes kept per key (0 disables the pool)
+ * - SUBPROCESS_POOL_MAX: total idle processes across all keys
+ * - SUBPROCESS_POOL_MODELS: models warmed at startup (comma separated registry names)
+ * - SUBPROCESS_POOL_MAX_IDLE_MS: recycle idle processes older than this
+ */
+
+import { ClaudeSubprocess, type SubprocessOptions } from "./manager.js";
+import { modelRegistry } from "../models/registry.js";
+import { logger } from "../logging/logger.js";
+
+const log = logger.child({ component: "Pool" });
+
+export interface PoolConfig {
+  minIdle: number;
+  maxIdle: number;
+  /** CLI models to warm */
+  models: string[];
+  maxIdleMs: number;
+  healthCheckIntervalMs: number;
+}
+
+export interface PoolStats {
+  enabled: boolean;
+  idle: number;
+  hits: number;
+  misses: number;
+  spawned: number;
+  recycled: number;
+}
+
+interface PooledProcess {
+  subprocess: ClaudeSubprocess;
+  createdAt: number;
+  onClose: () => void;
+}
+
+// Stop warming after this many processes in a row die before checkout
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+function parseIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+function loadConfig(): PoolConfig {
+  return {
+    minIdle: parseIntEnv("SUBPROCESS_POOL_MIN", 0),
+    maxIdle: parseIntEnv("SUBPROCESS_POOL_MAX", 4),
+    models: (process.env.SUBPROCESS_POOL_MODELS || "sonnet")
+      .split(",")
+      .map((m) => m.trim())
+      .filter(Boolean)
+      .map((m) => modelRegistry.find(m)?.cliModel)
+      .filter((m): m is string => m !== undefined),
+    maxIdleMs: parseIntEnv("SUBPROCESS_POOL_MAX_IDLE_MS", 10 * 60 * 1000),
+    healthCheckIntervalMs: 30 * 1000,
+  };
+}
+
+/**
+ * Pool key: the spawn options a warm process is bound to
+ */
+function poolKey(options: SubprocessOptions): string {
+  return [
+    options.model,
+    options.cwd || "",
+    options.tools ? options.tools.join(",") : "*",
+    options.permissionMode || "",
+    options.loadClaudeMd === false ? "no-claude-md" : "",
+  ].join("|");
+}
+
+class SubprocessPool {
+  private config: PoolConfig = loadConfig();
+  private idle: Map<string, PooledProcess[]> = new Map();
+  private keyOptions: Map<string, SubprocessOptions> = new Map();
+  private healthTimer: NodeJS.Timeout | null = null;
+  private consecutiveFailures: number = 0;
+  private stats = { hits: 0, misses: 0, spawned: 0, recycled: 0 };
+
+  get enabled(): boolean {
+    return this.config.minIdle > 0 && this.config.maxIdle > 0;
+  }
+
+  /**
+   * Warm the configured models and start health checks
+   */
+  start(cwd?: string): void {
+    if (!this.enabled || this.healthTimer) return;
+
+    for (const model of this.config.models) {
+      const options: SubprocessOptions = { model, cwd };
+      this.keyOptions.set(poolKey(options), options);
+    }
+    this.replenishAll();
+
+    this.healthTimer = setInterval(() => this.healthCheck(), this.config.healthCheckIntervalMs);
+    this.healthTimer.unref();
+    log.info("Warming pool", { perKey: this.config.minIdle, models: this.config.models });
+  }
+
+  /**
+   * Get a subprocess for a request: a warm one when available,
+   * otherwise a new (not yet spawned) instance.
+   */
+  acquire(options: SubprocessOptions): ClaudeSubprocess {
+    // Session and thinking runs need their args/env at spawn time
+    if (!this.enabled || options.sessionId || options.thinkingBudget) {
+      return new ClaudeSubprocess();
+    }
+
+    const key = poolKey(options);
+    if (!this.keyOptions.has(key)) {
+      // Remember demand for this key so it gets warmed from now on
+      this.keyOptions.set(key, {
+        model: options.model,
+        cwd: options.cwd,
+        tools: options.tools,
+        permissionMode: options.permissionMode,
+        loadClaudeMd: options.loadClaudeMd,
+      });
+    }
+
+    const entries = this.idle.get(key) || [];
+    while (entries.length > 0) {
+      const entry = entries.shift()!;
+      entry.subprocess.removeListener("close", entry.onClose);
+      if (entry.subprocess.isRunning()) {
+        this.stats.hits++;
+        this.replenish(key);
+        return entry.subprocess;
+      }
+    }
+
+    this.stats.misses++;
+    this.replenish(key);
+    return new ClaudeSubprocess();
+  }
+
+  /**
+   * Spawn idle processes for a key up to the per-key minimum,
+   * without exceeding the global maximum
+   */
+  private replenish(key: string): void {
+    const options = this.keyOptions.get(key);
+    if (!options || this.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) return;
+
+    const entries = this.idle.get(key) || [];
+    this.idle.set(key, entries);
+
+    while (entries.length < this.config.minIdle && this.idleCount() < this.config.maxIdle) {
+      entries.push(this.spawn(key, options));
+    }
+  }
+
+  private replenishAll(): void {
+    for (const key of this.keyOptions.keys()) {
+      this.replenish(key);
+    }
+  }
+
+  private spawn(key: string, options: SubprocessOptions): PooledProcess {
+    const subprocess = new ClaudeSubprocess();
+    const createdAt = Date.now();
+
+    // A process that exits while idle is unusable: drop it and count the failure
+    const onClose = () => {
+      this.remove(key, subprocess);
+      if (Date.now() - createdAt < this.config.healthCheckIntervalMs) {
+        this.consecutiveFailures++;
+        if (this.consecutiveFailures === MAX_CONSECUTIVE_FAILURES) {
+          log.error("Warm processes keep exiting, pausing pool until next health check");
+        }
+      }
+    };
+
+    subprocess.once("close", onClose);
+    // Errors surface through close; keep them from crashing while idle
+    subprocess.on("error", () => {});
+    subprocess.prespawn(options);
+    this.stats.spawned++;
+
+    return { subprocess, createdAt, onClose };
+  }
+
+  private remove(key: string, subprocess: ClaudeSubprocess): void {
+    const entries = this.idle.get(key);
+    if (!entries) return;
+    const index = entries.findIndex((e) => e.subprocess === subprocess);
+    if (index !== -1) entries.splice(index, 1);
+  }
+
+  /**
+   * Recycle stale processes, drop dead ones and refill
+   */
+  private healthCheck(): void {
+    const cutoff = Date.now() - this.config.maxIdleMs;
+
+    for (const [key, entries] of this.idle) {
+      for (const entry of [...entries]) {
+        if (!entry.subprocess.isRunning() || entry.createdAt < cutoff) {
+          entry.subprocess.removeListener("close", entry.onClose);
+          entry.subprocess.kill();
+          this.remove(key, entry.subprocess);
+          this.stats.recycled++;
+        }
+      }
+    }
+
+    // Give a paused pool another chance
+    this.consecutiveFailures = 0;
+    this.replenishAll();
+  }
+
+  private idleCount(): number {
+    let count = 0;
+    for (const entries of this.idle.values()) {
+      count += entries.length;
+    }
+    return count;
+  }
+
+  /**
+   * Get pool statistics
+   */
+  getStats(): PoolStats {
+    return { enabled: this.enabled, idle: this.idleCount(), ...this.stats };
+  }
+
+  /**
+   * Kill all idle processes and stop health checks
+   */
+  shutdown(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    for (const entries of this.idle.values()) {
+      for (const entry of entries) {
+        entry.subprocess.removeListener("close", entry.onClose);
+        entry.subprocess.kill();
+      }
+    }
+    this.idle.clear();
+  }
+}
+
+// Singleton instance
+export const subprocessPool = new SubprocessPool();
@@ -0,0 +1,235 @@
+/**
+ * Request Queue
+ *
+ * Limits how many Claude CLI runs execute at once, globally and per
+ * model. Requests beyond the limit wait in a FIFO queue; when the queue
+ * is full or a request waits too long it is rejected so the route can
+ * answer 429 with Retry-After.
+ *
+ * Configuration (environment):
+ * - MAX_CONCURRENT_REQUESTS: concurrent CLI runs across all models (0 = unlimited)
+ * - MAX_CONCURRENT_PER_MODEL: per-model limits, e.g. "opus=2,sonnet=4"
+ * - MAX_QUEUE_DEPTH: requests allowed to wait
+ * - MAX_QUEUE_WAIT_MS: longest a request may wait for a slot
+ */
+
+export type ReleaseFn = () => void;
+
+export interface QueueConfig {
+  maxConcurrent: number;
+  perModel: Record<string, number>;
+  maxQueueDepth: number;
+  maxWaitMs: number;
+}
+
+export interface QueueStats {
+  active: number;
+  activeByModel: Record<string, number>;
+  queued: number;
+  maxConcurrent: number;
+  maxQueueDepth: number;
+  completed: number;
+  rejected: number;
+  timedOut: number;
+  averageWaitMs: number;
+}
+
+/**
+ * Raised when a request cannot get a slot (queue full or wait timeout)
+ */
+export class QueueFullError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "queue_full" | "queue_timeout",
+    /** Suggested seconds before retrying */
+    public readonly retryAfter: number
+  ) {
+    super(message);
+    this.name = "QueueFullError";
+  }
+}
+
+interface Waiter {
+  model: string;
+  enqueuedAt: number;
+  grant: (release: ReleaseFn) => void;
+  timer: NodeJS.Timeout;
+}
+
+function parseIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+/**
+ * Parse "opus=2,sonnet=4" into a limit map
+ */
+function parseModelLimits(value: string | undefined): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const entry of (value || "").split(",")) {
+    const [model, limit] = entry.split("=").map((s) => s.trim());
+    const parsed = parseInt(limit, 10);
+    if (model && !isNaN(parsed) && parsed > 0) {
+      limits[model] = parsed;
+    }
+  }
+  return limits;
+}
+
+function loadConfig(): QueueConfig {
+  return {
+    maxConcurrent: parseIntEnv("MAX_CONCURRENT_REQUESTS", 4),
+    perModel: parseModelLimits(process.env.MAX_CONCURRENT_PER_MODEL),
+    maxQueueDepth: parseIntEnv("MAX_QUEUE_DEPTH", 32),
+    maxWaitMs: parseIntEnv("MAX_QUEUE_WAIT_MS", 120000),
+  };
+}
+
+// Assumed run duration until real ones have been observed
+const DEFAULT_HOLD_MS = 30000;
+
+class RequestQueue {
+  private config: QueueConfig = loadConfig();
+  private active: number = 0;
+  private activeByModel: Map<string, number> = new Map();
+  private waiters: Waiter[] = [];
+  private averageHoldMs: number = DEFAULT_HOLD_MS;
+  private totalWaitMs: number = 0;
+  private granted: number = 0;
+  private stats = { completed: 0, rejected: 0, timedOut: 0 };
+
+  /**
+   * Wait for a slot to run a request for the given model.
+   * Resolves with a release function that must be called when the run ends.
+   * Rejects with QueueFullError, or with the signal's reason if aborted.
+   */
+  acquire(model: string, signal?: AbortSignal): Promise<ReleaseFn> {
+    if (this.canRun(model)) {
+      return Promise.resolve(this.grant(model, Date.now()));
+    }
+
+    if (this.waiters.length >= this.config.maxQueueDepth) {
+      this.stats.rejected++;
+      return Promise.reject(
+        new QueueFullError(
+          `Too many concurrent requests: ${this.waiters.length} already queued`,
+          "queue_full",
+          this.estimateRetryAfter()
+        )
+      );
+    }
+
+    return new Promise<ReleaseFn>((resolve, reject) => {
+      const waiter: Waiter = {
+        model,
+        enqueuedAt: Date.now(),
+        grant: (release) => {
+          clearTimeout(waiter.timer);
+          signal?.removeEventListener("abort", onAbort);
+          resolve(release);
+        },
+        timer: setTimeout(() => {
+          this.removeWaiter(waiter);
+          signal?.removeEventListener("abort", onAbort);
+          this.stats.timedOut++;
+          reject(
+            new QueueFullError(
+              `Request waited ${this.config.maxWaitMs}ms without a free slot`,
+              "queue_timeout",
+              this.estimateRetryAfter()
+            )
+          );
+        }, this.config.maxWaitMs),
+      };
+
+      const onAbort = () => {
+        clearTimeout(waiter.timer);
+        this.removeWaiter(waiter);
+        reject(signal?.reason ?? new Error("Request aborted while queued"));
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Take a slot only if one is free and nobody is waiting; never queues.
+   * Returns null when no slot is available right now.
+   */
+  tryAcquire(model: string): ReleaseFn | null {
+    if (this.waiters.length > 0 || !this.canRun(model)) return null;
+    return this.grant(model, Date.now());
+  }
+
+  private canRun(model: string): boolean {
+    const { maxConcurrent, perModel } = this.config;
+    if (maxConcurrent > 0 && this.active >= maxConcurrent) return false;
+    const modelLimit = perModel[model];
+    return !modelLimit || (this.activeByModel.get(model) || 0) < modelLimit;
+  }
+
+  private grant(model: string, enqueuedAt: number): ReleaseFn {
+    const startedAt = Date.now();
+    this.active++;
+    this.activeByModel.set(model, (this.activeByModel.get(model) || 0) + 1);
+    this.granted++;
+    this.totalWaitMs += startedAt - enqueuedAt;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.activeByModel.set(model, (this.activeByModel.get(model) || 1) - 1);
+      this.stats.completed++;
+      // Exponential moving average of run duration, for Retry-After estimates
+      this.averageHoldMs = this.averageHoldMs * 0.8 + (Date.now() - startedAt) * 0.2;
+      this.drain();
+    };
+  }
+
+  /**
+   * Start queued requests that can run now, oldest first.
+   * Waiters blocked by a per-model limit don't hold up other models.
+   */
+  private drain(): void {
+    for (const waiter of [...this.waiters]) {
+      if (!this.canRun(waiter.model)) continue;
+      this.removeWaiter(waiter);
+      waiter.grant(this.grant(waiter.model, waiter.enqueuedAt));
+    }
+  }
+
+  private removeWaiter(waiter: Waiter): void {
+    const index = this.waiters.indexOf(waiter);
+    if (index !== -1) this.waiters.splice(index, 1);
+  }
+
+  /**
+   * Rough seconds until the queue has room, from observed run durations
+   */
+  private estimateRetryAfter(): number {
+    const slots = this.config.maxConcurrent || 1;
+    const ms = (this.averageHoldMs * (this.waiters.length + 1)) / slots;
+    return Math.max(1, Math.ceil(ms / 1000));
+  }
+
+  /**
+   * Get queue statistics
+   */
+  getStats(): QueueStats {
+    return {
+      active: this.active,
+      activeByModel: Object.fromEntries(this.activeByModel),
+      queued: this.waiters.length,
+      maxConcurrent: this.config.maxConcurrent,
+      maxQueueDepth: this.config.maxQueueDepth,
+      ...this.stats,
+      averageWaitMs: this.granted > 0 ? Math.round(this.totalWaitMs / this.granted) : 0,
+    };
+  }
+}
+
+// Singleton instance
+export const requestQueue = new RequestQueue();
@@ -36,11 +36,38 @@ export interface ClaudeCliHookResponse {
   outcome: "success" | "error";
 }
 
-export interface ClaudeCliAssistantContent {
+export interface ClaudeCliTextContent {
   type: "text";
   text: string;
 }
 
+export interface ClaudeCliThinkingContent {
+  type: "thinking";
+  thinking: string;
+  signature?: string;
+}
+
+/** A built-in tool the CLI decided to run */
+export interface ClaudeCliToolUseContent {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/** Output of a built-in tool, sent back to the model in a user message */
+export interface ClaudeCliToolResultContent {
+  type: "tool_result";
+  tool_use_id: string;
+  content?: string | Array<ClaudeCliTextContent | { type: string; [key: string]: unknown }>;
+  is_error?: boolean;
+}
+
+export type ClaudeCliAssistantContent =
+  | ClaudeCliTextContent
+  | ClaudeCliThinkingContent
+  | ClaudeCliToolUseContent;
+
 export interface ClaudeCliAssistant {
   type: "assistant";
   message: {
@@ -61,6 +88,16 @@ export interface ClaudeCliAssistant {
   uuid: string;
 }
 
+export interface ClaudeCliUser {
+  type: "user";
+  message: {
+    role: "user";
+    content: string | Array<ClaudeCliTextContent | ClaudeCliToolResultContent>;
+  };
+  session_id: string;
+  uuid: string;
+}
+
 export interface ClaudeCliResult {
   type: "result";
   subtype: "success" | "error";
@@ -96,12 +133,21 @@ export interface ClaudeCliStreamEvent {
     type: "message_start" | "content_block_start" | "content_block_delta" | "content_block_stop" | "message_delta" | "message_stop";
     index?: number;
     delta?: {
-      type: "text_delta";
-      text: string;
+      type?: "text_delta" | "input_json_delta" | "thinking_delta" | "signature_delta";
+      text?: string;
+      thinking?: string;
+      // message_delta only
+      stop_reason?: string | null;
+      stop_sequence?: string | null;
     };
     content_block?: {
-      type: "text";
-      text: string;
+      type: "text" | "tool_use" | "thinking";
+      text?: string;
+      thinking?: string;
+    };
+    // message_delta only
+    usage?: {
+      output_tokens: number;
     };
     message?: {
       model: string;
@@ -124,6 +170,7 @@ export type ClaudeCliMessage =
   | ClaudeCliHookStarted
   | ClaudeCliHookResponse
   | ClaudeCliAssistant
+  | ClaudeCliUser
   | ClaudeCliResult
   | ClaudeCliStreamEvent
   | ClaudeCliSystemMessage;
@@ -132,6 +179,10 @@ export function isAssistantMessage(msg: ClaudeCliMessage): msg is ClaudeCliAssis
   return msg.type === "assistant";
 }
 
+export function isUserMessage(msg: ClaudeCliMessage): msg is ClaudeCliUser {
+  return msg.type === "user";
+}
+
 export function isResultMessage(msg: ClaudeCliMessage): msg is ClaudeCliResult {
   return msg.type === "result";
 }
@@ -0,0 +1,47 @@
+/**
+ * Types for the legacy OpenAI text completions API
+ * Used by the /v1/completions endpoint
+ */
+
+export interface CompletionsRequest {
+  model: string;
+  /** A single prompt; arrays must hold exactly one string */
+  prompt: string | string[];
+  /** Text after the insertion point, for fill-in-the-middle */
+  suffix?: string | null;
+  /** Return the prompt before the completion */
+  echo?: boolean;
+  stop?: string | string[] | null;
+  max_tokens?: number;
+  stream?: boolean;
+  n?: number;
+  best_of?: number;
+  temperature?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  seed?: number;
+  logit_bias?: Record<string, number>;
+  logprobs?: number | null;
+  user?: string;
+}
+
+export interface CompletionsChoice {
+  text: string;
+  index: number;
+  logprobs: null;
+  finish_reason: "stop" | "length" | null;
+}
+
+export interface CompletionsResponse {
+  id: string;
+  object: "text_completion";
+  created: number;
+  model: string;
+  choices: CompletionsChoice[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
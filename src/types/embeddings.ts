@@ -0,0 +1,31 @@
+/**
+ * Types for the OpenAI embeddings API
+ * Used by the /v1/embeddings endpoint
+ */
+
+export interface EmbeddingsRequest {
+  model: string;
+  /** Text or a list of texts; token arrays are rejected */
+  input: string | string[] | number[] | number[][];
+  encoding_format?: "float" | "base64";
+  /** Shorten vectors to this size */
+  dimensions?: number;
+  user?: string;
+}
+
+export interface EmbeddingObject {
+  object: "embedding";
+  index: number;
+  /** Floats, or base64 little-endian float32 when encoding_format is "base64" */
+  embedding: number[] | string;
+}
+
+export interface EmbeddingsResponse {
+  object: "list";
+  data: EmbeddingObject[];
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
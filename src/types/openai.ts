@@ -17,34 +17,137 @@ export interface OpenAIImageContentPart {
   };
 }
 
-export type OpenAIContentPart = OpenAITextContentPart | OpenAIImageContentPart;
+// Chat Completions file part
+export interface OpenAIFileContentPart {
+  type: "file";
+  file: {
+    file_data?: string; // data URI or base64
+    file_id?: string;
+    filename?: string;
+  };
+}
+
+// Responses-style file part, also sent to chat by some clients
+export interface OpenAIInputFileContentPart {
+  type: "input_file";
+  file_data?: string;
+  file_id?: string;
+  filename?: string;
+}
+
+export type OpenAIContentPart =
+  | OpenAITextContentPart
+  | OpenAIImageContentPart
+  | OpenAIFileContentPart
+  | OpenAIInputFileContentPart;
 
 export type OpenAIMessageContent = string | OpenAIContentPart[];
 
+export interface OpenAIFunctionDefinition {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+  strict?: boolean;
+}
+
+export interface OpenAITool {
+  type: "function";
+  function: OpenAIFunctionDefinition;
+}
+
+export type OpenAIToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string; // JSON-encoded, as in the OpenAI API
+  };
+}
+
 export interface OpenAIChatMessage {
-  role: "system" | "developer" | "user" | "assistant";
-  content: OpenAIMessageContent;
+  role: "system" | "developer" | "user" | "assistant" | "tool";
+  content: OpenAIMessageContent | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[]; // assistant messages only
+  tool_call_id?: string; // tool messages only
 }
 
+export type OpenAIResponseFormat =
+  | { type: "text" }
+  | { type: "json_object" }
+  | {
+      type: "json_schema";
+      json_schema: {
+        name: string;
+        description?: string;
+        schema?: Record<string, unknown>;
+        strict?: boolean;
+      };
+    };
+
+/** How built-in CLI tool runs are reported (extension) */
+export type ToolActivityMode = "off" | "events" | "tool_calls";
+
+/** A built-in tool the CLI ran while answering (extension) */
+export interface ToolActivity {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  /** Tool output, truncated to TOOL_RESULT_MAX_CHARS; absent while running */
+  result?: string;
+  is_error?: boolean;
+  truncated?: boolean;
+}
+
+export type OpenAIReasoningEffort = "minimal" | "low" | "medium" | "high";
+
 export interface OpenAIChatRequest {
   model: string;
   messages: OpenAIChatMessage[];
   stream?: boolean;
   temperature?: number;
   max_tokens?: number;
+  max_completion_tokens?: number;
+  stop?: string | string[] | null;
   top_p?: number;
   frequency_penalty?: number;
   presence_penalty?: number;
+  n?: number;
+  seed?: number;
+  logit_bias?: Record<string, number>;
+  logprobs?: boolean;
+  top_logprobs?: number;
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
+  parallel_tool_calls?: boolean;
+  response_format?: OpenAIResponseFormat;
+  reasoning_effort?: OpenAIReasoningEffort;
+  /** Anthropic-style thinking config (extension); overrides reasoning_effort */
+  thinking?: { type: "enabled"; budget_tokens: number } | { type: "disabled" };
+  /** How to report built-in tool runs while streaming (extension) */
+  tool_activity?: ToolActivityMode;
   user?: string; // Used for session mapping
 }
 
+export type OpenAIFinishReason = "stop" | "length" | "content_filter" | "tool_calls";
+
 export interface OpenAIChatResponseChoice {
   index: number;
   message: {
     role: "assistant";
-    content: string;
+    content: string | null;
+    reasoning_content?: string;
+    tool_calls?: OpenAIToolCall[];
+    /** Built-in tools the CLI ran (extension) */
+    tool_activity?: ToolActivity[];
   };
-  finish_reason: "stop" | "length" | "content_filter" | null;
+  finish_reason: OpenAIFinishReason | null;
 }
 
 export interface OpenAIChatResponse {
@@ -60,15 +163,34 @@ export interface OpenAIChatResponse {
   };
 }
 
+export interface OpenAIChatChunkToolCall {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+  /** Set for built-in tools the CLI already ran (tool_activity: "tool_calls") */
+  executed?: true;
+  result?: {
+    content: string;
+    is_error: boolean;
+    truncated?: boolean;
+  };
+}
+
 export interface OpenAIChatChunkDelta {
   role?: "assistant";
   content?: string;
+  reasoning_content?: string;
+  tool_calls?: OpenAIChatChunkToolCall[];
 }
 
 export interface OpenAIChatChunkChoice {
   index: number;
   delta: OpenAIChatChunkDelta;
-  finish_reason: "stop" | "length" | "content_filter" | null;
+  finish_reason: OpenAIFinishReason | null;
 }
 
 export interface OpenAIChatChunk {
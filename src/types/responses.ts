@@ -0,0 +1,83 @@
+/**
+ * Types for the OpenAI Responses API
+ * Used by the /v1/responses endpoint
+ */
+
+export interface ResponsesInputText {
+  type: "input_text";
+  text: string;
+}
+
+export interface ResponsesInputImage {
+  type: "input_image";
+  image_url?: string;
+  file_id?: string;
+  detail?: string;
+}
+
+export interface ResponsesInputFile {
+  type: "input_file";
+  file_data?: string;
+  file_id?: string;
+  filename?: string;
+}
+
+export interface ResponsesOutputText {
+  type: "output_text";
+  text: string;
+  annotations: unknown[];
+}
+
+export type ResponsesInputContent =
+  | ResponsesInputText
+  | ResponsesInputImage
+  | ResponsesInputFile
+  | Omit<ResponsesOutputText, "annotations">;
+
+export interface ResponsesInputMessage {
+  type?: "message";
+  role: "system" | "developer" | "user" | "assistant";
+  content: string | ResponsesInputContent[];
+}
+
+export interface ResponsesRequest {
+  model: string;
+  input: string | ResponsesInputMessage[];
+  instructions?: string;
+  previous_response_id?: string;
+  stream?: boolean;
+  store?: boolean;
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  user?: string;
+}
+
+export interface ResponsesOutputMessage {
+  type: "message";
+  id: string;
+  status: "in_progress" | "completed" | "incomplete";
+  role: "assistant";
+  content: ResponsesOutputText[];
+}
+
+export interface ResponsesUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+export interface ResponsesResponse {
+  id: string;
+  object: "response";
+  created_at: number;
+  status: "in_progress" | "completed" | "incomplete" | "failed";
+  model: string;
+  instructions: string | null;
+  previous_response_id: string | null;
+  output: ResponsesOutputMessage[];
+  output_text: string;
+  error: { code: string; message: string } | null;
+  incomplete_details: { reason: "max_output_tokens" } | null;
+  usage: ResponsesUsage | null;
+}
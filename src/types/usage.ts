@@ -0,0 +1,36 @@
+/**
+ * Types for the usage reporting API
+ * Used by the /v1/usage endpoint
+ */
+
+export interface UsageTotalsObject {
+  requests: number;
+  /** CLI runs that ended in an error result */
+  errors: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens: number;
+  cache_creation_input_tokens: number;
+  duration_ms: number;
+  /** API-equivalent cost reported by the CLI */
+  cost_usd: number;
+}
+
+export interface UsageBucketObject extends UsageTotalsObject {
+  object: "usage.bucket";
+  /** UTC day (YYYY-MM-DD), when grouped by day */
+  day?: string;
+  /** API key label, when grouped by user */
+  user?: string;
+  /** Registry model id, when grouped by model */
+  model?: string;
+}
+
+export interface UsageResponse {
+  object: "list";
+  group_by: string[];
+  start_date: string | null;
+  end_date: string | null;
+  data: UsageBucketObject[];
+  totals: UsageTotalsObject;
+}
@@ -0,0 +1,234 @@
+/**
+ * Usage Ledger
+ *
+ * Append-only JSONL record of every CLI run: who ran it (API key label),
+ * which model, tokens, cache tokens, duration and the API-equivalent cost
+ * the CLI reports. GET /v1/usage aggregates it, so a team sharing one Max
+ * subscription can see who is consuming it.
+ *
+ * Configuration (environment):
+ * - USAGE_LEDGER_FILE: ledger path (default ~/.claude-code-cli-usage.jsonl)
+ * - USAGE_LEDGER=false disables recording
+ */
+
+import fsSync from "fs";
+import fs from "fs/promises";
+import path from "path";
+import readline from "readline";
+import type { ClaudeCliResult } from "../types/claude-cli.js";
+import { logger } from "../logging/logger.js";
+
+const log = logger.child({ component: "UsageLedger" });
+
+/** Who and what a CLI run is accounted to */
+export interface UsageContext {
+  requestId?: string;
+  /** API key label; undefined when auth is disabled */
+  user?: string;
+  /** End user named by the request (OpenAI `user`, Anthropic `metadata.user_id`) */
+  endUser?: string;
+  /** Registry model id */
+  model?: string;
+  route?: string;
+}
+
+export interface UsageRecord {
+  /** ISO timestamp of the result */
+  timestamp: string;
+  requestId?: string;
+  user: string;
+  endUser?: string;
+  model: string;
+  /** CLI --model argument */
+  cliModel: string;
+  route?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  durationMs: number;
+  costUsd: number;
+  isError: boolean;
+}
+
+export type UsageGroupKey = "day" | "user" | "model";
+
+export interface UsageQuery {
+  /** Inclusive lower bound (epoch ms) */
+  from?: number;
+  /** Exclusive upper bound (epoch ms) */
+  to?: number;
+  user?: string;
+  model?: string;
+  groupBy: UsageGroupKey[];
+}
+
+export interface UsageTotals {
+  requests: number;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  durationMs: number;
+  costUsd: number;
+}
+
+export interface UsageBucket extends UsageTotals {
+  day?: string;
+  user?: string;
+  model?: string;
+}
+
+// Label for runs made without an API key (auth disabled)
+export const ANONYMOUS_USER = "anonymous";
+
+const LEDGER_FILE = process.env.USAGE_LEDGER_FILE || path.join(
+  process.env.HOME || "/tmp",
+  ".claude-code-cli-usage.jsonl"
+);
+const LEDGER_ENABLED = process.env.USAGE_LEDGER !== "false";
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    errors: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    durationMs: 0,
+    costUsd: 0,
+  };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  if (record.isError) totals.errors++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cacheReadTokens += record.cacheReadTokens;
+  totals.cacheCreationTokens += record.cacheCreationTokens;
+  totals.durationMs += record.durationMs;
+  totals.costUsd += record.costUsd;
+}
+
+class UsageLedger {
+  // Appends are chained so lines are written whole and in order
+  private writes: Promise<void> = Promise.resolve();
+  private listeners: ((record: UsageRecord) => void)[] = [];
+
+  get enabled(): boolean {
+    return LEDGER_ENABLED;
+  }
+
+  /**
+   * Build a ledger record from a CLI result
+   */
+  toRecord(result: ClaudeCliResult, context: UsageContext, cliModel: string, durationMs: number): UsageRecord {
+    const usage = result.usage;
+    return {
+      timestamp: new Date().toISOString(),
+      requestId: context.requestId,
+      user: context.user || ANONYMOUS_USER,
+      endUser: context.endUser,
+      model: context.model || cliModel,
+      cliModel,
+      route: context.route,
+      inputTokens: usage?.input_tokens || 0,
+      outputTokens: usage?.output_tokens || 0,
+      cacheReadTokens: usage?.cache_read_input_tokens || 0,
+      cacheCreationTokens: usage?.cache_creation_input_tokens || 0,
+      durationMs,
+      costUsd: result.total_cost_usd || 0,
+      isError: result.is_error,
+    };
+  }
+
+  /**
+   * Run a callback for every new record, even when the ledger file is off
+   */
+  onRecord(listener: (record: UsageRecord) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Append a record to the ledger (errors are logged, not thrown)
+   */
+  record(record: UsageRecord): Promise<void> {
+    for (const listener of this.listeners) listener(record);
+    if (!LEDGER_ENABLED) return Promise.resolve();
+    this.writes = this.writes
+      .then(async () => {
+        await fs.mkdir(path.dirname(LEDGER_FILE), { recursive: true });
+        await fs.appendFile(LEDGER_FILE, JSON.stringify(record) + "\n");
+      })
+      .catch((err) => log.error("Append error", { error: err }));
+    return this.writes;
+  }
+
+  /**
+   * Aggregate matching records into buckets keyed by the group-by fields,
+   * sorted by those fields
+   */
+  async query(query: UsageQuery): Promise<{ buckets: UsageBucket[]; totals: UsageTotals }> {
+    // Let pending appends land first
+    await this.writes;
+
+    const buckets: Map<string, UsageBucket> = new Map();
+    const totals = emptyTotals();
+
+    for await (const record of this.records()) {
+      const time = Date.parse(record.timestamp);
+      if (query.from !== undefined && !(time >= query.from)) continue;
+      if (query.to !== undefined && !(time < query.to)) continue;
+      if (query.user !== undefined && record.user !== query.user) continue;
+      if (query.model !== undefined && record.model !== query.model) continue;
+
+      const fields: Pick<UsageBucket, UsageGroupKey> = {};
+      for (const key of query.groupBy) {
+        fields[key] = key === "day" ? record.timestamp.slice(0, 10) : record[key];
+      }
+      const bucketKey = JSON.stringify(fields);
+      let bucket = buckets.get(bucketKey);
+      if (!bucket) {
+        bucket = { ...fields, ...emptyTotals() };
+        buckets.set(bucketKey, bucket);
+      }
+      addRecord(bucket, record);
+      addRecord(totals, record);
+    }
+
+    const sorted = Array.from(buckets.values()).sort((a, b) => {
+      for (const key of query.groupBy) {
+        const order = (a[key] || "").localeCompare(b[key] || "");
+        if (order !== 0) return order;
+      }
+      return 0;
+    });
+    return { buckets: sorted, totals };
+  }
+
+  /**
+   * Stream records from the ledger file, skipping malformed lines
+   */
+  async *records(): AsyncGenerator<UsageRecord> {
+    if (!fsSync.existsSync(LEDGER_FILE)) return;
+
+    const lines = readline.createInterface({
+      input: fsSync.createReadStream(LEDGER_FILE, "utf-8"),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as UsageRecord;
+      } catch {
+        // Partial line from a crash mid-append
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const usageLedger = new UsageLedger();